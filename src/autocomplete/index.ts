@@ -1,4 +1,17 @@
-export type { DatabaseSchema, TableInfo, ColumnMeta, ForeignKey, SQLContext } from './types.js';
-export { loadSchema, createEmptySchema } from './schemaService.js';
-export { getSuggestion } from './suggestionEngine.js';
+export type {
+	DatabaseSchema,
+	TableInfo,
+	ColumnMeta,
+	ForeignKey,
+	SQLContext,
+	TableReference,
+	ScopeSource,
+	QueryScope,
+	QueryAnalysis,
+	Completion,
+	CompletionKind,
+} from './types.js';
+export { loadSchema, createEmptySchema, findTable, isOnSearchPath } from './schemaService.js';
+export { getSuggestion, getCompletions } from './suggestionEngine.js';
+export { analyzeQuery, scopeAt, visibleSources, sourceColumns } from './scopeAnalyzer.js';
 export { SQL_KEYWORDS, SQL_FUNCTIONS } from './keywords.js';
@@ -1,95 +1,16 @@
-import type pg from 'pg';
-import type { DatabaseSchema, TableInfo, ColumnMeta, ForeignKey } from './types.js';
+import type { DatabaseDriver } from '../drivers/index.js';
+import type { DatabaseSchema, TableInfo } from './types.js';
 import { SQL_KEYWORDS, SQL_FUNCTIONS } from './keywords.js';
 
-interface TableRow {
-	table_name: string;
-}
-
-interface ColumnRow {
-	table_name: string;
-	column_name: string;
-	data_type: string;
-	is_nullable: string;
-}
-
-interface ForeignKeyRow {
-	table_name: string;
-	column_name: string;
-	referenced_table: string;
-	referenced_column: string;
-}
-
-export async function loadSchema(client: pg.Client): Promise<DatabaseSchema> {
-	const tablesResult = await client.query<TableRow>(`
-		SELECT table_name
-		FROM information_schema.tables
-		WHERE table_schema = current_schema()
-		  AND table_type = 'BASE TABLE'
-		ORDER BY table_name
-	`);
-
-	const columnsResult = await client.query<ColumnRow>(`
-		SELECT table_name, column_name, data_type, is_nullable
-		FROM information_schema.columns
-		WHERE table_schema = current_schema()
-		ORDER BY table_name, ordinal_position
-	`);
-
-	const foreignKeysResult = await client.query<ForeignKeyRow>(`
-		SELECT
-			kcu.table_name,
-			kcu.column_name,
-			ccu.table_name AS referenced_table,
-			ccu.column_name AS referenced_column
-		FROM information_schema.key_column_usage kcu
-		JOIN information_schema.constraint_column_usage ccu
-			ON kcu.constraint_name = ccu.constraint_name
-			AND kcu.constraint_schema = ccu.constraint_schema
-		JOIN information_schema.table_constraints tc
-			ON kcu.constraint_name = tc.constraint_name
-			AND kcu.constraint_schema = tc.constraint_schema
-		WHERE tc.constraint_type = 'FOREIGN KEY'
-			AND kcu.table_schema = current_schema()
-	`);
-
-	const tableMap = new Map<string, TableInfo>();
-
-	for (const row of tablesResult.rows) {
-		tableMap.set(row.table_name, {
-			name: row.table_name,
-			schema: 'public',
-			columns: [],
-			foreignKeys: [],
-		});
-	}
-
-	for (const row of columnsResult.rows) {
-		const table = tableMap.get(row.table_name);
-		if (table) {
-			const column: ColumnMeta = {
-				name: row.column_name,
-				dataType: row.data_type,
-				isNullable: row.is_nullable === 'YES',
-			};
-			table.columns.push(column);
-		}
-	}
-
-	for (const row of foreignKeysResult.rows) {
-		const table = tableMap.get(row.table_name);
-		if (table) {
-			const fk: ForeignKey = {
-				column: row.column_name,
-				referencedTable: row.referenced_table,
-				referencedColumn: row.referenced_column,
-			};
-			table.foreignKeys.push(fk);
-		}
-	}
-
+/**
+ * Load the tables, views, routines and types of every schema on the search
+ * path, plus `extraSchemas` (from the connection's `schemas` setting).
+ */
+export async function loadSchema(driver: DatabaseDriver, extraSchemas: string[] = []): Promise<DatabaseSchema> {
+	const searchPath = await driver.searchPath();
 	return {
-		tables: Array.from(tableMap.values()),
+		...(await driver.introspect([...new Set([...searchPath, ...extraSchemas])])),
+		searchPath,
 		keywords: SQL_KEYWORDS,
 		functions: SQL_FUNCTIONS,
 	};
@@ -98,7 +19,35 @@ export async function loadSchema(client: pg.Client): Promise<DatabaseSchema> {
 export function createEmptySchema(): DatabaseSchema {
 	return {
 		tables: [],
+		routines: [],
+		types: [],
+		searchPath: [],
 		keywords: SQL_KEYWORDS,
 		functions: SQL_FUNCTIONS,
 	};
 }
+
+/**
+ * Whether a table, routine or type can be named without its schema.
+ */
+export function isOnSearchPath(object: { schema: string }, schema: DatabaseSchema): boolean {
+	return schema.searchPath.length === 0 || schema.searchPath.some((name) => name.toLowerCase() === object.schema.toLowerCase());
+}
+
+/**
+ * The table a name refers to, ignoring case. A qualified name must match its
+ * schema; an unqualified one finds the first match along the search path, as
+ * the server does, so tables of schemas loaded only by request need their schema.
+ */
+export function findTable(schema: DatabaseSchema, name: string, schemaName: string | null = null): TableInfo | undefined {
+	const matches = schema.tables.filter((table) => table.name.toLowerCase() === name.toLowerCase());
+	if (schemaName) {
+		return matches.find((table) => table.schema.toLowerCase() === schemaName.toLowerCase());
+	}
+	const visible = matches.filter((table) => isOnSearchPath(table, schema));
+	const position = (table: TableInfo) => {
+		const index = schema.searchPath.findIndex((path) => path.toLowerCase() === table.schema.toLowerCase());
+		return index === -1 ? schema.searchPath.length : index;
+	};
+	return visible.sort((a, b) => position(a) - position(b))[0];
+}
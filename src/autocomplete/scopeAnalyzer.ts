@@ -0,0 +1,574 @@
+import type { ColumnMeta, DatabaseSchema, ProjectionItem, QueryAnalysis, QueryScope, ScopeKind, ScopeSource } from './types.js';
+import { tokenize, type Token } from '../sql/tokenizer.js';
+import { SQL_KEYWORDS } from './keywords.js';
+import { findTable } from './schemaService.js';
+
+// Words that cannot be an alias: a keyword after a FROM item starts the next clause or join
+const KEYWORDS_SET = new Set([
+	...SQL_KEYWORDS.map((k) => k.toUpperCase()),
+	'USING',
+	'NATURAL',
+	'LATERAL',
+	'RETURNING',
+	'WINDOW',
+	'FETCH',
+	'TABLESAMPLE',
+	'WITH',
+]);
+
+const SET_OPERATIONS = new Set(['UNION', 'INTERSECT', 'EXCEPT']);
+
+// Clauses after which names are column references again
+const CLAUSES = new Set(['WHERE', 'GROUP', 'HAVING', 'ORDER', 'LIMIT', 'OFFSET', 'FETCH', 'WINDOW', 'RETURNING', 'SET', 'VALUES']);
+
+type Clause = 'start' | 'select' | 'from' | 'condition' | 'other';
+
+interface Parser {
+	tokens: Token[]; // One statement, without whitespace and comments
+	closing: Map<number, number>; // Index of each "(" to the index of its ")"
+	end: number; // Offset where the statement ends
+	analysis: QueryAnalysis;
+}
+
+/**
+ * Find the query scopes of each statement in `sql`: every SELECT, CTE body,
+ * derived table and subquery, with the FROM items and output columns of each.
+ * Unbalanced parentheses (a query still being typed) close at the end of the statement.
+ */
+export function analyzeQuery(sql: string): QueryAnalysis {
+	const analysis: QueryAnalysis = { scopes: [], declarations: new Set() };
+	let statement: Token[] = [];
+
+	const flush = (end: number) => {
+		if (statement.length > 0) {
+			const parser = { tokens: statement, closing: matchParentheses(statement), end, analysis };
+			parseQuery(parser, 0, statement.length, null, 'statement');
+		}
+		statement = [];
+	};
+
+	for (const token of tokenize(sql)) {
+		if (token.type === 'whitespace' || token.type === 'comment') continue;
+		if (token.type === 'punctuation' && token.text === ';') {
+			flush(token.start);
+		} else {
+			statement.push(token);
+		}
+	}
+	flush(sql.length);
+
+	return analysis;
+}
+
+/**
+ * The innermost scope containing `offset`, or null outside any query.
+ */
+export function scopeAt(analysis: QueryAnalysis, offset: number): QueryScope | null {
+	let innermost: QueryScope | null = null;
+	for (const scope of analysis.scopes) {
+		if (scope.start > offset || offset > scope.end) continue;
+		if (!innermost || scope.end - scope.start <= innermost.end - innermost.start) {
+			innermost = scope;
+		}
+	}
+	return innermost;
+}
+
+/**
+ * The FROM items a scope can name: its own, then those of the queries around
+ * it that a correlated or LATERAL subquery can see.
+ */
+export function visibleSources(scope: QueryScope): ScopeSource[] {
+	const sources = [...scope.sources];
+	for (let inner = scope; inner.parent; inner = inner.parent) {
+		const outer = inner.parent;
+		if (inner.kind === 'expression') {
+			sources.push(...outer.sources);
+		} else if (inner.kind === 'lateral') {
+			sources.push(...outer.sources.filter((source) => source.query !== inner && source.position < inner.start));
+		}
+	}
+	return sources;
+}
+
+// CTEs a scope can name, nearest WITH first
+export function visibleCtes(scope: QueryScope): ScopeSource[] {
+	const ctes: ScopeSource[] = [];
+	for (let current: QueryScope | null = scope; current; current = current.parent) {
+		ctes.push(...current.ctes);
+	}
+	return ctes;
+}
+
+// Whether "qualifier." names a FROM item: by alias, table name or schema.table
+export function matchesQualifier(source: ScopeSource, qualifier: string): boolean {
+	const name = qualifier.toLowerCase();
+	return source.alias === name || source.table === name || (source.schema !== null && `${source.schema}.${source.table}` === name);
+}
+
+/**
+ * The FROM item "qualifier." refers to. An alias or schema.table picks one; a
+ * bare table name that tables of different schemas share (a.users and
+ * b.users) is ambiguous, so nothing is returned.
+ */
+export function findQualifiedSource(sources: ScopeSource[], qualifier: string): ScopeSource | undefined {
+	const name = qualifier.toLowerCase();
+	const matches = sources.filter((source) => matchesQualifier(source, name));
+	const aliased = matches.find((source) => source.alias === name);
+	if (aliased) {
+		return aliased;
+	}
+	return new Set(matches.map((source) => source.schema)).size > 1 ? undefined : matches[0];
+}
+
+/**
+ * The columns a FROM item provides: a table's from the schema, a CTE's or
+ * derived table's from its SELECT list. Null when they cannot be known, as
+ * for tables that were not loaded or set-returning functions without a column list.
+ */
+export function sourceColumns(source: ScopeSource, schema: DatabaseSchema): ColumnMeta[] | null {
+	return resolveSource(source, schema, new Set());
+}
+
+// The first of `sources` with a column of this name
+export function findColumn(sources: ScopeSource[], name: string, schema: DatabaseSchema): ColumnMeta | undefined {
+	return findColumnIn(sources, name, schema, new Set());
+}
+
+// `seen` holds the queries being expanded, so a recursive CTE does not expand itself
+function resolveSource(source: ScopeSource, schema: DatabaseSchema, seen: Set<QueryScope>): ColumnMeta[] | null {
+	let columns: ColumnMeta[] | null = null;
+	if (source.kind === 'table') {
+		columns = findTable(schema, source.table, source.schema)?.columns ?? null;
+	} else if (source.query && !seen.has(source.query)) {
+		columns = queryColumns(source.query, schema, new Set([...seen, source.query]));
+	}
+
+	const names = source.columnNames;
+	if (!names) {
+		return columns;
+	}
+	// A column list renames the first columns; for an unknown table the rest are still unknown
+	if (!columns) {
+		return source.kind === 'table' ? null : names.map((name) => ({ name, dataType: '', isNullable: true }));
+	}
+	return columns.map((column, index) => (index < names.length ? { ...column, name: names[index] } : column));
+}
+
+function queryColumns(scope: QueryScope, schema: DatabaseSchema, seen: Set<QueryScope>): ColumnMeta[] | null {
+	// A VALUES list, or a SELECT list not typed yet
+	if (scope.projection.length === 0) {
+		return null;
+	}
+
+	const visible = visibleSources(scope);
+	const columns: ColumnMeta[] = [];
+	for (const item of scope.projection) {
+		if ('star' in item) {
+			const qualified = item.qualifier ? findQualifiedSource(scope.sources, item.qualifier) : undefined;
+			const sources = item.qualifier ? (qualified ? [qualified] : []) : scope.sources;
+			if (sources.length === 0) return null;
+			for (const source of sources) {
+				const expanded = resolveSource(source, schema, seen);
+				if (!expanded) return null;
+				columns.push(...expanded);
+			}
+			continue;
+		}
+		// A plain column reference keeps the column's type
+		const reference = item.column;
+		const qualified = reference?.qualifier ? findQualifiedSource(visible, reference.qualifier) : undefined;
+		const column = reference
+			? findColumnIn(reference.qualifier ? (qualified ? [qualified] : []) : visible, reference.name, schema, seen)
+			: undefined;
+		columns.push({
+			name: item.name,
+			dataType: column?.dataType ?? '',
+			isNullable: column?.isNullable ?? true,
+			enumValues: column?.enumValues,
+			enumCollation: column?.enumCollation,
+		});
+	}
+	return columns;
+}
+
+function findColumnIn(sources: ScopeSource[], name: string, schema: DatabaseSchema, seen: Set<QueryScope>): ColumnMeta | undefined {
+	for (const source of sources) {
+		const column = resolveSource(source, schema, seen)?.find((col) => col.name.toLowerCase() === name.toLowerCase());
+		if (column) return column;
+	}
+	return undefined;
+}
+
+function matchParentheses(tokens: Token[]): Map<number, number> {
+	const closing = new Map<number, number>();
+	const open: number[] = [];
+	tokens.forEach((token, index) => {
+		if (token.type !== 'punctuation') return;
+		if (token.text === '(') {
+			open.push(index);
+		} else if (token.text === ')' && open.length > 0) {
+			closing.set(open.pop()!, index);
+		}
+	});
+	return closing;
+}
+
+// The ")" matching the "(" at `open`, or `to` when it is not closed before then
+function closeOf(p: Parser, open: number, to: number): number {
+	return Math.min(p.closing.get(open) ?? to, to);
+}
+
+function offsetAt(p: Parser, index: number): number {
+	return index < p.tokens.length ? p.tokens[index].start : p.end;
+}
+
+function isWord(token: Token | undefined, word: string): boolean {
+	return token?.type === 'word' && token.text.toUpperCase() === word;
+}
+
+function isName(token: Token | undefined): token is Token {
+	return token?.type === 'word' || token?.type === 'quoted';
+}
+
+function isKeyword(token: Token): boolean {
+	return token.type === 'word' && KEYWORDS_SET.has(token.text.toUpperCase());
+}
+
+function startsQuery(token: Token | undefined): boolean {
+	return isWord(token, 'SELECT') || isWord(token, 'WITH') || isWord(token, 'VALUES');
+}
+
+// An identifier as written, without its quotes
+function identifier(token: Token): string {
+	return token.type === 'quoted' ? token.text.slice(1, -1) : token.text;
+}
+
+function declare(p: Parser, token: Token): void {
+	p.analysis.declarations.add(token.type === 'quoted' ? token.start + 1 : token.start);
+}
+
+function createScope(p: Parser, start: number, end: number, parent: QueryScope | null, kind: ScopeKind, ctes: ScopeSource[]): QueryScope {
+	const scope: QueryScope = { kind, start, end, sources: [], ctes, projection: [], parent };
+	p.analysis.scopes.push(scope);
+	return scope;
+}
+
+// The query in tokens [from, to), either a whole statement or the inside of parentheses
+function parseQuery(p: Parser, from: number, to: number, parent: QueryScope | null, kind: ScopeKind): QueryScope {
+	const start = from > 0 ? p.tokens[from - 1].start + 1 : offsetAt(p, from);
+	const scope = createScope(p, start, offsetAt(p, to), parent, kind, []);
+	const body = isWord(p.tokens[from], 'WITH') ? parseWith(p, from + 1, to, scope) : from;
+	parseBody(p, body, to, scope, 'start');
+	return scope;
+}
+
+// WITH [RECURSIVE] name [(columns)] AS [NOT] [MATERIALIZED] (query), ...; returns where the main query starts
+function parseWith(p: Parser, from: number, to: number, scope: QueryScope): number {
+	const { tokens } = p;
+	let i = isWord(tokens[from], 'RECURSIVE') ? from + 1 : from;
+	while (i < to && isName(tokens[i])) {
+		const nameToken = tokens[i++];
+		declare(p, nameToken);
+		let columnNames: string[] | null = null;
+		if (tokens[i]?.text === '(') {
+			const close = closeOf(p, i, to);
+			columnNames = readNames(p, i + 1, close);
+			i = close + 1;
+		}
+		if (!isWord(tokens[i], 'AS')) break;
+		i++;
+		if (isWord(tokens[i], 'NOT')) i++;
+		if (isWord(tokens[i], 'MATERIALIZED')) i++;
+
+		// Registered before its body is read, so a recursive CTE can name itself
+		const cte: ScopeSource = {
+			kind: 'cte',
+			schema: null,
+			table: identifier(nameToken).toLowerCase(),
+			alias: null,
+			query: null,
+			columnNames,
+			lateral: false,
+			position: nameToken.start,
+		};
+		scope.ctes.push(cte);
+		if (tokens[i]?.text !== '(') break;
+		const close = closeOf(p, i, to);
+		cte.query = parseQuery(p, i + 1, close, scope, 'cte');
+		i = close + 1;
+		if (tokens[i]?.text !== ',') break;
+		i++;
+	}
+	return i;
+}
+
+// The names in a column list such as (a, b, c)
+function readNames(p: Parser, from: number, to: number): string[] {
+	const names: string[] = [];
+	for (let i = from; i < to; i++) {
+		if (isName(p.tokens[i])) {
+			declare(p, p.tokens[i]);
+			names.push(identifier(p.tokens[i]));
+		}
+	}
+	return names;
+}
+
+/**
+ * Read the clauses of one query, registering its FROM items and output
+ * columns and the scopes of any subqueries. A UNION, INTERSECT or EXCEPT
+ * starts a new scope for the query after it.
+ */
+function parseBody(p: Parser, from: number, to: number, scope: QueryScope, initial: Clause): void {
+	const { tokens } = p;
+	let clause = initial;
+	let item: Token[] = []; // The SELECT list item being read, with parentheses' contents left out
+	let expectSource = clause === 'from';
+	let lateral = false;
+	let aliasable: ScopeSource | null = null; // The FROM item just read, which an alias may follow
+
+	const endItem = () => {
+		if (item.length > 0) {
+			scope.projection.push(projectionItem(p, item));
+		}
+		item = [];
+	};
+
+	let i = from;
+	while (i < to) {
+		const token = tokens[i];
+		const word = token.type === 'word' ? token.text.toUpperCase() : null;
+
+		if (token.type === 'punctuation' && token.text === '(') {
+			const close = closeOf(p, i, to);
+			const subquery = startsQuery(tokens[i + 1]) && i + 1 < close;
+			if (clause === 'from' && expectSource) {
+				if (subquery) {
+					const source: ScopeSource = { kind: 'derived', schema: null, table: '', alias: null, query: null, columnNames: null, lateral, position: token.start };
+					source.query = parseQuery(p, i + 1, close, scope, lateral ? 'lateral' : 'derived');
+					scope.sources.push(source);
+					aliasable = source;
+				} else {
+					// Parenthesized joins: FROM (a JOIN b ON ...)
+					parseBody(p, i + 1, close, scope, 'from');
+				}
+				expectSource = false;
+			} else if (clause === 'from' && aliasable?.alias && !aliasable.columnNames) {
+				// Column aliases: AS t(a, b)
+				aliasable.columnNames = readNames(p, i + 1, close);
+				aliasable = null;
+			} else if (subquery) {
+				parseQuery(p, i + 1, close, scope, 'expression');
+			} else {
+				parseExpression(p, i + 1, close, scope);
+			}
+			if (clause === 'select') {
+				item.push(token);
+				if (close < to) item.push(tokens[close]);
+			}
+			i = close + 1;
+			continue;
+		}
+
+		if (word && SET_OPERATIONS.has(word)) {
+			if (clause === 'select') endItem();
+			scope.end = token.start;
+			let next = i + 1;
+			if (isWord(tokens[next], 'ALL') || isWord(tokens[next], 'DISTINCT')) next++;
+			// Each side is its own scope, with the same CTEs in view
+			const sibling = createScope(p, offsetAt(p, next), offsetAt(p, to), scope.parent, scope.kind, scope.ctes);
+			parseBody(p, next, to, sibling, 'start');
+			return;
+		}
+
+		if (word === 'SELECT') {
+			clause = 'select';
+			i++;
+			if (isWord(tokens[i], 'ALL')) i++;
+			if (isWord(tokens[i], 'DISTINCT')) {
+				i++;
+				// DISTINCT ON (expressions)
+				if (isWord(tokens[i], 'ON') && tokens[i + 1]?.text === '(') {
+					const close = closeOf(p, i + 1, to);
+					parseExpression(p, i + 2, close, scope);
+					i = close + 1;
+				}
+			}
+			continue;
+		}
+
+		// FROM and JOIN items, DELETE ... USING items, and the targets of UPDATE and INSERT INTO
+		if (
+			word === 'FROM' ||
+			word === 'JOIN' ||
+			word === 'UPDATE' ||
+			(word === 'USING' && tokens[i + 1]?.text !== '(') ||
+			(word === 'INTO' && clause !== 'select')
+		) {
+			if (clause === 'select') endItem();
+			clause = 'from';
+			expectSource = true;
+			lateral = false;
+			aliasable = null;
+			i++;
+			continue;
+		}
+
+		// ON conditions and JOIN ... USING (columns)
+		if ((word === 'ON' || word === 'USING') && clause === 'from') {
+			clause = 'condition';
+			aliasable = null;
+			i++;
+			continue;
+		}
+
+		if (word && CLAUSES.has(word)) {
+			if (clause === 'select') endItem();
+			clause = 'other';
+			aliasable = null;
+			i++;
+			continue;
+		}
+
+		if (token.text === ',') {
+			if (clause === 'select') {
+				endItem();
+			} else if (clause === 'from' || clause === 'condition') {
+				clause = 'from';
+				expectSource = true;
+				lateral = false;
+				aliasable = null;
+			}
+			i++;
+			continue;
+		}
+
+		if (clause === 'select') {
+			item.push(token);
+		} else if (clause === 'from') {
+			if (word === 'LATERAL') {
+				lateral = true;
+			} else if (expectSource && isName(token) && word !== 'ONLY') {
+				const count = scope.sources.length;
+				i = readSource(p, i, to, scope, lateral);
+				aliasable = scope.sources.length > count ? scope.sources[count] : null;
+				expectSource = false;
+				continue;
+			} else if (aliasable && !aliasable.alias && isName(token) && !isKeyword(token)) {
+				aliasable.alias = identifier(token).toLowerCase();
+				if (aliasable.kind === 'derived') {
+					aliasable.table = aliasable.alias;
+				}
+				declare(p, token);
+			}
+		}
+		i++;
+	}
+
+	if (clause === 'select') endItem();
+}
+
+// A table, CTE or set-returning function named in FROM; returns the index after it
+function readSource(p: Parser, from: number, to: number, scope: QueryScope, lateral: boolean): number {
+	const { tokens } = p;
+	let schemaToken: Token | null = null;
+	let nameToken = tokens[from];
+	let next = from + 1;
+	// "FROM audit." is a schema whose table is still being typed, not a FROM item
+	if (tokens[next]?.text === '.' && !(isName(tokens[next + 1]) && tokens[next + 1].start === tokens[next].start + 1)) {
+		return next + 1;
+	}
+	if (tokens[next]?.text === '.') {
+		schemaToken = nameToken;
+		nameToken = tokens[next + 1];
+		next += 2;
+	}
+	if (schemaToken) declare(p, schemaToken);
+	declare(p, nameToken);
+
+	const schemaName = schemaToken ? identifier(schemaToken).toLowerCase() : null;
+	const name = identifier(nameToken).toLowerCase();
+	const position = tokens[from].start;
+
+	// generate_series(1, 10) AS n: its arguments may use earlier FROM items
+	if (tokens[next]?.text === '(') {
+		const close = closeOf(p, next, to);
+		parseExpression(p, next + 1, close, scope);
+		scope.sources.push({ kind: 'function', schema: schemaName, table: name, alias: null, query: null, columnNames: null, lateral, position });
+		return close + 1;
+	}
+
+	const cte = schemaName ? undefined : visibleCtes(scope).find((candidate) => candidate.table === name);
+	scope.sources.push(
+		cte
+			? { ...cte, alias: null, position }
+			: { kind: 'table', schema: schemaName, table: name, alias: null, query: null, columnNames: null, lateral, position }
+	);
+	return next;
+}
+
+// Subqueries inside an expression, as in WHERE id IN (SELECT ...) or coalesce((SELECT ...), 0)
+function parseExpression(p: Parser, from: number, to: number, scope: QueryScope): void {
+	for (let i = from; i < to; i++) {
+		if (p.tokens[i].text === '(' && startsQuery(p.tokens[i + 1])) {
+			const close = closeOf(p, i, to);
+			parseQuery(p, i + 1, close, scope, 'expression');
+			i = close;
+		}
+	}
+}
+
+/**
+ * Name a SELECT list item the way Postgres does: by its alias, the column it
+ * references, the function it calls, or "?column?" for other expressions.
+ */
+function projectionItem(p: Parser, tokens: Token[]): ProjectionItem {
+	const last = tokens[tokens.length - 1];
+	const before = tokens[tokens.length - 2];
+
+	if (last.text === '*' && (!before || before.text === '.')) {
+		return { star: true, qualifier: before ? identifier(tokens[tokens.length - 3]).toLowerCase() : null };
+	}
+
+	// expression AS alias, or expression alias (but not a.b, x + y or END)
+	if (before && isName(last) && !isKeyword(last)) {
+		const explicit = isWord(before, 'AS');
+		if (explicit || (before.text !== '.' && before.type !== 'operator' && (!isKeyword(before) || isWord(before, 'END')))) {
+			declare(p, last);
+			return { name: identifier(last), column: columnReference(tokens.slice(0, explicit ? -2 : -1)) };
+		}
+	}
+
+	// A cast keeps the name of what is cast
+	const cast = tokens.findIndex((token) => token.text === '::');
+	const expression = cast > 0 ? tokens.slice(0, cast) : tokens;
+	const column = columnReference(expression);
+	if (column) {
+		return { name: identifier(expression[expression.length - 1]), column };
+	}
+	const [first] = expression;
+	if (isWord(first, 'CASE')) {
+		return { name: 'case', column: null };
+	}
+	// fn(...) or schema.fn(...)
+	const call = expression.length - 3;
+	if (call >= 0 && expression[call].type === 'word' && expression[call + 1].text === '(' && (call === 0 || expression[call - 1].text === '.')) {
+		return { name: expression[call].text.toLowerCase(), column: null };
+	}
+	return { name: '?column?', column: null };
+}
+
+// name, qualifier.name or schema.table.name
+function columnReference(tokens: Token[]): { qualifier: string | null; name: string } | null {
+	const names = tokens.filter((_token, index) => index % 2 === 0);
+	const dots = tokens.filter((_token, index) => index % 2 === 1);
+	if (tokens.length % 2 === 0 || tokens.length > 5 || !names.every(isName) || !dots.every((token) => token.text === '.')) {
+		return null;
+	}
+	if (names.some((token) => isKeyword(token))) {
+		return null;
+	}
+	const parts = names.map((token) => identifier(token).toLowerCase());
+	return { qualifier: parts.length > 1 ? parts.slice(0, -1).join('.') : null, name: parts[parts.length - 1] };
+}
@@ -1,28 +1,74 @@
-import type { SQLContext } from './types.js';
+import type { QueryScope, ScopeSource, SQLContext } from './types.js';
+import { findQualifiedSource, visibleCtes, visibleSources } from './scopeAnalyzer.js';
 
 const CLAUSE_KEYWORDS = ['SELECT', 'FROM', 'WHERE', 'JOIN', 'LEFT', 'RIGHT', 'INNER', 'OUTER', 'FULL', 'CROSS', 'ON', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'INSERT', 'UPDATE', 'DELETE', 'SET', 'VALUES', 'INTO'];
 
-export function parseContext(query: string): SQLContext {
+/**
+ * Context for completing at the end of `query`. Tables and aliases come from
+ * `scope`, the query the cursor is in as analyzed from the whole statement, so
+ * a FROM clause after the cursor still counts, as do CTEs, derived tables and
+ * the FROM items of the queries around a correlated subquery.
+ */
+export function parseContext(query: string, scope: QueryScope | null = null): SQLContext {
 	const upperQuery = query.toUpperCase();
-	const trimmed = query.trimEnd();
 
-	// Get the partial word being typed (last word fragment)
-	const partial = getPartialWord(trimmed);
-	const beforePartial = trimmed.slice(0, trimmed.length - partial.length).trimEnd();
+	// Get the partial word being typed (last word fragment); empty after whitespace
+	const partial = getPartialWord(query);
+	let beforePartial = query.slice(0, query.length - partial.length).trimEnd();
+	// Drop the opening quote of a quoted identifier being typed (`us or "us)
+	const quote = beforePartial.slice(-1);
+	if ((quote === '`' || quote === '"') && beforePartial.split(quote).length % 2 === 0) {
+		beforePartial = beforePartial.slice(0, -1);
+	}
+
+	const sources = scope ? visibleSources(scope) : [];
+	const ctes = scope ? visibleCtes(scope) : [];
 
-	// Check for table.column pattern (e.g., "users.")
-	const dotMatch = beforePartial.match(/(\w+)\.\s*$/);
+	// At the start of a string literal: enum labels when it is compared to a column,
+	// sequence names in nextval('...') and friends
+	if (beforePartial.endsWith("'") && beforePartial.split("'").length % 2 === 0) {
+		const beforeLiteral = beforePartial.slice(0, -1);
+		if (/\b(?:nextval|currval|setval)\s*\(\s*$/i.test(beforeLiteral)) {
+			return { type: 'SEQUENCE_NAME', partial };
+		}
+		// column, table.column or schema.table.column
+		const comparison = beforeLiteral.match(
+			/(?:(?:(\w+)[`"]?\.[`"]?)?(\w+)[`"]?\.[`"]?)?(\w+)[`"]?\s*(?:=|<>|!=|\bIN\s*\((?:\s*'(?:[^']|'')*'\s*,)*)\s*$/i
+		);
+		if (comparison) {
+			const [, schemaName, table, column] = comparison;
+			return {
+				type: 'COLUMN_VALUE',
+				column,
+				qualifier: table ? (schemaName ? `${schemaName}.${table}` : table) : null,
+				tables: sources,
+				partial,
+			};
+		}
+		return { type: 'LITERAL', partial };
+	}
+
+	// Check for a type name after :: or CAST(value AS
+	if (beforePartial.endsWith('::') || /\bCAST\s*\([^()]*\bAS$/i.test(beforePartial)) {
+		return { type: 'TYPE_NAME', partial };
+	}
+
+	// Check for table.column pattern (e.g., "users.", "`users`.", "u." for an alias or subquery, or "app.users.")
+	const dotMatch = beforePartial.match(/(?:(\w+)[`"]?\.[`"]?)?(\w+)[`"]?\.\s*$/);
 	if (dotMatch) {
+		const qualifier = dotMatch[1] ? `${dotMatch[1]}.${dotMatch[2]}` : dotMatch[2];
 		return {
 			type: 'TABLE_COLUMN',
-			table: dotMatch[1],
+			table: dotMatch[2],
+			schema: dotMatch[1] ?? null,
+			source: findQualifiedSource(sources, qualifier) ?? null,
 			partial,
 		};
 	}
 
 	// Find the last clause keyword
 	const lastClause = findLastClause(upperQuery, beforePartial.length);
-	const tables = extractTables(query);
+	const tables = sources;
 
 	switch (lastClause) {
 		case 'SELECT':
@@ -36,6 +82,7 @@ export function parseContext(query: string): SQLContext {
 		case 'INTO':
 			return {
 				type: 'FROM_TABLE',
+				ctes,
 				partial,
 			};
 
@@ -50,6 +97,7 @@ export function parseContext(query: string): SQLContext {
 			if (isAfterJoinKeyword(upperQuery, beforePartial.length)) {
 				return {
 					type: 'JOIN_TABLE',
+					ctes,
 					partial,
 				};
 			}
@@ -61,12 +109,12 @@ export function parseContext(query: string): SQLContext {
 
 		case 'ON': {
 			// Check if we're at the start of a JOIN ON clause (good place for FK suggestion)
-			const joinTables = extractJoinOnTables(query, upperQuery);
+			const joinTables = scope && extractJoinOnTables(scope, upperQuery);
 			if (joinTables) {
 				return {
 					type: 'JOIN_ON',
-					leftTable: joinTables.leftTable,
-					rightTable: joinTables.rightTable,
+					left: joinTables.left,
+					right: joinTables.right,
 					tables,
 					partial,
 				};
@@ -140,30 +188,6 @@ function findLastClause(upperQuery: string, beforePosition: number): string | nu
 	return lastClause;
 }
 
-function extractTables(query: string): string[] {
-	const tables: string[] = [];
-	const upperQuery = query.toUpperCase();
-
-	// Match tables after FROM (with optional alias)
-	const fromMatch = upperQuery.match(/\bFROM\s+(\w+)(?:\s+(?:AS\s+)?(\w+))?/i);
-	if (fromMatch) {
-		const tableName = query.slice(
-			upperQuery.indexOf(fromMatch[1]),
-			upperQuery.indexOf(fromMatch[1]) + fromMatch[1].length
-		);
-		tables.push(tableName.toLowerCase());
-	}
-
-	// Match tables after JOIN keywords (with optional alias)
-	const joinRegex = /\b(?:LEFT|RIGHT|INNER|OUTER|FULL|CROSS)?\s*JOIN\s+(\w+)(?:\s+(?:AS\s+)?(\w+))?/gi;
-	let joinMatch;
-	while ((joinMatch = joinRegex.exec(query)) !== null) {
-		tables.push(joinMatch[1].toLowerCase());
-	}
-
-	return tables;
-}
-
 function isAfterJoinKeyword(upperQuery: string, position: number): boolean {
 	const queryUpToPosition = upperQuery.slice(0, position + 1);
 
@@ -189,38 +213,21 @@ function isAfterJoinKeyword(upperQuery: string, position: number): boolean {
 }
 
 /**
- * Extract the left and right tables for a JOIN ON clause.
- * For "SELECT * FROM users JOIN orders ON |", returns { leftTable: "users", rightTable: "orders" }
+ * Extract the left and right tables for a JOIN ON clause: the first FROM item
+ * and the one joined just before the last ON.
+ * For "SELECT * FROM users u JOIN orders o ON |", returns users (alias u) and orders (alias o)
  */
-function extractJoinOnTables(query: string, upperQuery: string): { leftTable: string; rightTable: string } | null {
-	// Find the FROM table (left table)
-	const fromMatch = query.match(/\bFROM\s+(\w+)/i);
-	if (!fromMatch) {
-		return null;
-	}
-	const leftTable = fromMatch[1].toLowerCase();
-
+function extractJoinOnTables(scope: QueryScope, upperQuery: string): { left: ScopeSource; right: ScopeSource } | null {
 	// Find the last ON keyword position
 	const lastOnIndex = upperQuery.lastIndexOf(' ON');
 	if (lastOnIndex === -1) {
 		return null;
 	}
 
-	// Find the JOIN clause that precedes this ON
-	// Look for pattern: JOIN table_name ... ON
-	const beforeOn = query.slice(0, lastOnIndex);
-
-	// Match the most recent JOIN with its table name
-	// This handles: JOIN orders, LEFT JOIN orders, etc.
-	const joinMatches = [...beforeOn.matchAll(/\b(?:LEFT\s+|RIGHT\s+|INNER\s+|OUTER\s+|FULL\s+|CROSS\s+)?JOIN\s+(\w+)/gi)];
-
-	if (joinMatches.length === 0) {
+	const beforeOn = scope.sources.filter((source) => source.position < lastOnIndex);
+	if (beforeOn.length < 2) {
 		return null;
 	}
 
-	// Get the last JOIN match (the one this ON belongs to)
-	const lastJoinMatch = joinMatches[joinMatches.length - 1];
-	const rightTable = lastJoinMatch[1].toLowerCase();
-
-	return { leftTable, rightTable };
+	return { left: beforeOn[0], right: beforeOn[beforeOn.length - 1] };
 }
@@ -1,34 +1,61 @@
-import type { DatabaseSchema, SQLContext } from './types.js';
+import type { ColumnMeta, Completion, CompletionKind, DatabaseSchema, ForeignKey, RoutineInfo, ScopeSource, SQLContext, TableInfo } from './types.js';
 import { parseContext } from './sqlParser.js';
+import { analyzeQuery, findQualifiedSource, scopeAt, sourceColumns } from './scopeAnalyzer.js';
+import { findTable, isOnSearchPath } from './schemaService.js';
 
 interface Candidate {
 	text: string;
 	priority: number;
+	kind: CompletionKind;
+	detail?: string;
+	match?: string; // What the partial word is matched against, when not `text` (schema.table matches on table)
 }
 
-export function getSuggestion(query: string, schema: DatabaseSchema): string | undefined {
-	if (!query.trim()) {
-		return undefined;
+/**
+ * Ranked completions at `cursor` in `query`, best first. Each name appears
+ * once, cased to match what was typed.
+ */
+export function getCompletions(query: string, schema: DatabaseSchema, cursor: number = query.length): Completion[] {
+	const beforeCursor = query.slice(0, cursor);
+	if (!beforeCursor.trim()) {
+		return [];
 	}
 
-	const context = parseContext(query);
-	const candidates = getCandidates(context, schema);
-	const ranked = rankCandidates(candidates, context.partial);
-
-	if (ranked.length === 0) {
-		return undefined;
+	// Tables and aliases may be declared after the cursor, as in "SELECT u.| FROM users u"
+	const statementStart = beforeCursor.lastIndexOf(';') + 1;
+	const statementEnd = query.indexOf(';', cursor);
+	const statement = query.slice(statementStart, statementEnd === -1 ? undefined : statementEnd);
+	const scope = scopeAt(analyzeQuery(statement), cursor - statementStart);
+	const context = parseContext(beforeCursor.slice(statementStart), scope);
+	const ranked = rankCandidates(getCandidates(context, schema), context.partial);
+
+	// The same column can come from several tables, and a name can be both a keyword and a function
+	const seen = new Set<string>();
+	const completions: Completion[] = [];
+	for (const candidate of ranked) {
+		const key = candidate.text.toLowerCase();
+		if (seen.has(key)) continue;
+		seen.add(key);
+		completions.push({
+			// Enum labels are case-sensitive
+			text: candidate.kind === 'value' ? candidate.text : matchCase(candidate.text, context.partial),
+			kind: candidate.kind,
+			detail: candidate.detail,
+			partial: context.partial,
+		});
 	}
+	return completions;
+}
 
-	// Build the complete suggestion by replacing the partial with the match
-	const suggestion = matchCase(ranked[0].text, context.partial);
-	if (!context.partial) {
-		// No partial word - just append the suggestion
-		return query + suggestion;
+// The query completed with the top candidate, shown as ghost text
+export function getSuggestion(query: string, schema: DatabaseSchema): string | undefined {
+	const [best] = getCompletions(query, schema);
+	if (!best) {
+		return undefined;
 	}
 
-	// Replace the partial word with the full suggestion
-	const beforePartial = query.slice(0, query.length - context.partial.length);
-	return beforePartial + suggestion;
+	// Replace the partial word (if any) with the full suggestion
+	return query.slice(0, query.length - best.partial.length) + best.text;
 }
 
 /**
@@ -62,23 +89,23 @@ function getCandidates(context: SQLContext, schema: DatabaseSchema): Candidate[]
 	switch (context.type) {
 		case 'SELECT_COLUMNS': {
 			// Add columns from known tables
-			const columns = getColumnsForTables(context.tables, schema);
-			for (const col of columns) {
-				candidates.push({ text: col, priority: 1 });
+			for (const col of getColumnsForTables(context.tables, schema)) {
+				candidates.push(columnCandidate(col));
 			}
-			// Add functions (high priority in SELECT)
+			// Add functions (high priority in SELECT), the server's own first
+			candidates.push(...routineCandidates(schema, 2));
 			for (const fn of schema.functions) {
-				candidates.push({ text: fn, priority: 2 });
+				candidates.push({ text: fn, priority: 2, kind: 'function' });
 			}
 			// Add keywords
 			for (const kw of schema.keywords) {
-				candidates.push({ text: kw, priority: 3 });
+				candidates.push({ text: kw, priority: 3, kind: 'keyword' });
 			}
 			// Add all table columns if no specific tables
 			if (context.tables.length === 0) {
 				for (const table of schema.tables) {
 					for (const col of table.columns) {
-						candidates.push({ text: col.name, priority: 1 });
+						candidates.push(columnCandidate(col));
 					}
 				}
 			}
@@ -87,51 +114,47 @@ function getCandidates(context: SQLContext, schema: DatabaseSchema): Candidate[]
 
 		case 'FROM_TABLE':
 		case 'JOIN_TABLE': {
-			// Suggest table names
-			for (const table of schema.tables) {
-				candidates.push({ text: table.name, priority: 1 });
+			// Suggest the query's own CTEs, then table names
+			for (const cte of context.ctes) {
+				candidates.push({ text: cte.table, priority: 0, kind: 'table', detail: 'cte' });
 			}
+			candidates.push(...tableCandidates(schema, 1));
 			break;
 		}
 
 		case 'JOIN_ON': {
 			// Suggest FK-based join conditions with highest priority
-			const joinConditions = getJoinConditions(
-				context.leftTable,
-				context.rightTable,
-				schema
-			);
+			const joinConditions = getJoinConditions(context.left, context.right, schema);
 			for (const condition of joinConditions) {
-				candidates.push({ text: condition, priority: 0 }); // Highest priority
+				candidates.push({ text: condition, priority: 0, kind: 'join' }); // Highest priority
 			}
 
 			// Fall back to column suggestions if no FK relationships
-			const columns = getColumnsForTables(context.tables, schema);
-			for (const col of columns) {
-				candidates.push({ text: col, priority: 1 });
+			for (const col of getColumnsForTables(context.tables, schema)) {
+				candidates.push(columnCandidate(col));
 			}
 			break;
 		}
 
 		case 'WHERE_COLUMN': {
 			// Add columns from known tables
-			const columns = getColumnsForTables(context.tables, schema);
-			for (const col of columns) {
-				candidates.push({ text: col, priority: 1 });
+			for (const col of getColumnsForTables(context.tables, schema)) {
+				candidates.push(columnCandidate(col));
 			}
 			// Add functions (useful in WHERE)
+			candidates.push(...routineCandidates(schema, 2));
 			for (const fn of schema.functions) {
-				candidates.push({ text: fn, priority: 2 });
+				candidates.push({ text: fn, priority: 2, kind: 'function' });
 			}
 			// Add keywords
 			for (const kw of schema.keywords) {
-				candidates.push({ text: kw, priority: 3 });
+				candidates.push({ text: kw, priority: 3, kind: 'keyword' });
 			}
 			// Add all table columns if no specific tables
 			if (context.tables.length === 0) {
 				for (const table of schema.tables) {
 					for (const col of table.columns) {
-						candidates.push({ text: col.name, priority: 1 });
+						candidates.push(columnCandidate(col));
 					}
 				}
 			}
@@ -139,32 +162,78 @@ function getCandidates(context: SQLContext, schema: DatabaseSchema): Candidate[]
 		}
 
 		case 'TABLE_COLUMN': {
-			// Suggest columns for the specific table
-			const table = schema.tables.find(
-				(t) => t.name.toLowerCase() === context.table.toLowerCase()
+			// Suggest columns for the FROM item (a table, CTE or subquery) or the table named
+			const columns = context.source
+				? sourceColumns(context.source, schema)
+				: findTable(schema, context.table, context.schema)?.columns;
+			for (const col of columns ?? []) {
+				candidates.push(columnCandidate(col));
+			}
+			// "app." may name a schema instead: suggest its tables and functions
+			const unknownTable =
+				context.source?.kind === 'table' && !findTable(schema, context.source.table, context.source.schema);
+			if (!context.schema && (!context.source || unknownTable)) {
+				const schemaName = context.table.toLowerCase();
+				for (const t of schema.tables) {
+					if (t.schema.toLowerCase() === schemaName) {
+						candidates.push(relationCandidate(t, 1));
+					}
+				}
+				for (const routine of schema.routines) {
+					if (routine.schema.toLowerCase() === schemaName) {
+						candidates.push(routineCandidate(routine, 2));
+					}
+				}
+			}
+			break;
+		}
+
+		case 'COLUMN_VALUE': {
+			// Enum labels of the column the literal is compared to
+			const qualified = context.qualifier ? findQualifiedSource(context.tables, context.qualifier) : undefined;
+			const references = context.qualifier ? (qualified ? [qualified] : []) : context.tables;
+			const column = getColumnsForTables(references, schema).find(
+				(col) => col.name.toLowerCase() === context.column.toLowerCase()
 			);
-			if (table) {
-				for (const col of table.columns) {
-					candidates.push({ text: col.name, priority: 1 });
+			for (const value of column?.enumValues ?? []) {
+				candidates.push({ text: value, priority: 1, kind: 'value', detail: column?.dataType });
+			}
+			break;
+		}
+
+		case 'SEQUENCE_NAME': {
+			for (const table of schema.tables) {
+				if (table.kind === 'sequence') {
+					candidates.push(qualifyOffPath(relationCandidate(table, 1), table, schema));
 				}
 			}
 			break;
 		}
 
+		case 'TYPE_NAME': {
+			for (const type of schema.types) {
+				const detail = type.kind === 'enum' ? 'enum' : `domain over ${type.baseType}`;
+				candidates.push(qualifyOffPath({ text: type.name, priority: 1, kind: 'type', detail }, type, schema));
+			}
+			break;
+		}
+
+		case 'LITERAL':
+			break;
+
 		case 'KEYWORD':
 		case 'UNKNOWN':
 		default: {
 			// Suggest keywords first, then functions
 			for (const kw of schema.keywords) {
-				candidates.push({ text: kw, priority: 1 });
+				candidates.push({ text: kw, priority: 1, kind: 'keyword' });
 			}
+			candidates.push(...routineCandidates(schema, 2));
 			for (const fn of schema.functions) {
-				candidates.push({ text: fn, priority: 2 });
+				candidates.push({ text: fn, priority: 2, kind: 'function' });
 			}
 			// Also suggest table names
-			for (const table of schema.tables) {
-				candidates.push({ text: table.name, priority: 3 });
-			}
+			candidates.push(...tableCandidates(schema, 3));
 			break;
 		}
 	}
@@ -172,52 +241,97 @@ function getCandidates(context: SQLContext, schema: DatabaseSchema): Candidate[]
 	return candidates;
 }
 
-function getColumnsForTables(tableNames: string[], schema: DatabaseSchema): string[] {
-	const columns: string[] = [];
+function columnCandidate(column: ColumnMeta): Candidate {
+	// Computed columns of a subquery have no known type
+	return { text: column.name, priority: 1, kind: 'column', detail: column.dataType || undefined };
+}
 
-	for (const tableName of tableNames) {
-		const table = schema.tables.find(
-			(t) => t.name.toLowerCase() === tableName.toLowerCase()
-		);
-		if (table) {
-			for (const col of table.columns) {
-				columns.push(col.name);
-			}
+/**
+ * Tables, views and sequences, qualified when their schema is off the search
+ * path. With several schemas loaded, the schema names are offered too, for "schema.".
+ */
+function tableCandidates(schema: DatabaseSchema, priority: number): Candidate[] {
+	const candidates: Candidate[] = [];
+	const schemaNames = new Set<string>();
+	for (const table of schema.tables) {
+		// Sequences can be selected from, but rarely are
+		candidates.push(qualifyOffPath(relationCandidate(table, table.kind === 'sequence' ? priority + 1 : priority), table, schema));
+		schemaNames.add(table.schema);
+	}
+	if (schemaNames.size > 1) {
+		for (const name of schemaNames) {
+			candidates.push({ text: name, priority: priority + 1, kind: 'schema' });
 		}
 	}
+	return candidates;
+}
+
+function relationCandidate(table: TableInfo, priority: number): Candidate {
+	if (table.kind === 'table' || table.kind === 'sequence') {
+		return { text: table.name, priority, kind: table.kind };
+	}
+	return { text: table.name, priority, kind: 'view', detail: table.kind === 'materialized view' ? 'materialized' : undefined };
+}
+
+// Functions and procedures defined on the server, with their signatures
+function routineCandidates(schema: DatabaseSchema, priority: number): Candidate[] {
+	return schema.routines.map((routine) => qualifyOffPath(routineCandidate(routine, priority), routine, schema));
+}
+
+function routineCandidate(routine: RoutineInfo, priority: number): Candidate {
+	const signature = `(${routine.arguments})`;
+	const detail = routine.returnType ? `${signature} → ${routine.returnType}` : `${routine.kind} ${signature}`;
+	return { text: routine.name, priority, kind: 'function', detail };
+}
+
+// Objects outside the search path are only found as schema.name; the bare name still matches what is typed
+function qualifyOffPath(candidate: Candidate, object: { name: string; schema: string }, schema: DatabaseSchema): Candidate {
+	if (isOnSearchPath(object, schema)) {
+		return candidate;
+	}
+	return { ...candidate, text: `${object.schema}.${object.name}`, match: object.name };
+}
+
+function getColumnsForTables(sources: ScopeSource[], schema: DatabaseSchema): ColumnMeta[] {
+	const columns: ColumnMeta[] = [];
+
+	for (const source of sources) {
+		columns.push(...(sourceColumns(source, schema) ?? []));
+	}
 
 	return columns;
 }
 
 /**
  * Get join condition suggestions based on FK relationships between two tables.
- * Returns conditions like "orders.user_id = users.id"
+ * Returns conditions like "orders.user_id = users.id", or "o.user_id = u.id"
+ * when the tables are aliased.
  */
 function getJoinConditions(
-	leftTableName: string,
-	rightTableName: string,
+	left: ScopeSource,
+	right: ScopeSource,
 	schema: DatabaseSchema
 ): string[] {
 	const conditions: string[] = [];
 
-	const leftTable = schema.tables.find(
-		(t) => t.name.toLowerCase() === leftTableName.toLowerCase()
-	);
-	const rightTable = schema.tables.find(
-		(t) => t.name.toLowerCase() === rightTableName.toLowerCase()
-	);
+	// CTEs and subqueries have no foreign keys, even when named like a table
+	const leftTable = left.kind === 'table' ? findTable(schema, left.table, left.schema) : undefined;
+	const rightTable = right.kind === 'table' ? findTable(schema, right.table, right.schema) : undefined;
 
 	if (!leftTable || !rightTable) {
 		return conditions;
 	}
 
+	const leftName = left.alias ?? leftTable.name;
+	const rightName = right.alias ?? rightTable.name;
+
 	// Check if rightTable has FK to leftTable
 	// e.g., orders.user_id -> users.id
 	// Suggests: orders.user_id = users.id
 	for (const fk of rightTable.foreignKeys) {
-		if (fk.referencedTable.toLowerCase() === leftTableName.toLowerCase()) {
+		if (references(fk, leftTable)) {
 			conditions.push(
-				`${rightTable.name}.${fk.column} = ${leftTable.name}.${fk.referencedColumn}`
+				`${rightName}.${fk.column} = ${leftName}.${fk.referencedColumn}`
 			);
 		}
 	}
@@ -226,9 +340,9 @@ function getJoinConditions(
 	// e.g., users.department_id -> departments.id
 	// Suggests: users.department_id = departments.id
 	for (const fk of leftTable.foreignKeys) {
-		if (fk.referencedTable.toLowerCase() === rightTableName.toLowerCase()) {
+		if (references(fk, rightTable)) {
 			conditions.push(
-				`${leftTable.name}.${fk.column} = ${rightTable.name}.${fk.referencedColumn}`
+				`${leftName}.${fk.column} = ${rightName}.${fk.referencedColumn}`
 			);
 		}
 	}
@@ -236,6 +350,14 @@ function getJoinConditions(
 	return conditions;
 }
 
+// Whether a foreign key points at `table`, which may be in another schema
+function references(fk: ForeignKey, table: TableInfo): boolean {
+	return (
+		fk.referencedTable.toLowerCase() === table.name.toLowerCase() &&
+		fk.referencedSchema.toLowerCase() === table.schema.toLowerCase()
+	);
+}
+
 function rankCandidates(candidates: Candidate[], partial: string): Candidate[] {
 	if (!partial) {
 		// No partial - return candidates sorted by priority then alphabetically
@@ -252,7 +374,7 @@ function rankCandidates(candidates: Candidate[], partial: string): Candidate[] {
 
 	// Filter to only candidates that match the partial (case-insensitive prefix)
 	const matching = candidates.filter((c) =>
-		c.text.toUpperCase().startsWith(upperPartial)
+		(c.match ?? c.text).toUpperCase().startsWith(upperPartial)
 	);
 
 	// Don't suggest if the partial is already a complete match
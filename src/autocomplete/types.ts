@@ -2,33 +2,127 @@ export interface ColumnMeta {
 	name: string;
 	dataType: string;
 	isNullable: boolean;
+	enumValues?: string[]; // Allowed labels when the column has an enum type
+	// MySQL ENUMs compare labels by this collation, and an unknown label matches no rows instead of failing
+	enumCollation?: string;
 }
 
 export interface ForeignKey {
 	column: string;
+	referencedSchema: string;
 	referencedTable: string;
 	referencedColumn: string;
 }
 
+// Anything that can be named in FROM
+export type RelationKind = 'table' | 'view' | 'materialized view' | 'sequence';
+
 export interface TableInfo {
 	name: string;
 	schema: string;
+	kind: RelationKind;
 	columns: ColumnMeta[];
 	foreignKeys: ForeignKey[];
 }
 
-export interface DatabaseSchema {
-	tables: TableInfo[];
+// A function or procedure defined on the server, as opposed to a built-in
+export interface RoutineInfo {
+	name: string;
+	schema: string;
+	kind: 'function' | 'procedure' | 'aggregate' | 'window';
+	arguments: string; // e.g. "user_id integer, since date DEFAULT now()"
+	returnType: string | null; // null for procedures
+}
+
+// A user-defined enum or domain
+export interface TypeInfo {
+	name: string;
+	schema: string;
+	kind: 'enum' | 'domain';
+	values: string[]; // Enum labels in sort order; empty for domains
+	baseType: string | null; // The type a domain is over; null for enums
+}
+
+// What introspection finds in the loaded schemas
+export interface SchemaObjects {
+	tables: TableInfo[]; // Tables, views and sequences
+	routines: RoutineInfo[];
+	types: TypeInfo[];
+}
+
+export interface DatabaseSchema extends SchemaObjects {
+	searchPath: string[]; // Schemas unqualified table names resolve to, in order
 	keywords: string[];
-	functions: string[];
+	functions: string[]; // Built-in function names
+}
+
+// A table in a FROM or JOIN clause, and the alias it goes by there
+export interface TableReference {
+	schema: string | null; // Only when written as schema.table
+	table: string;
+	alias: string | null;
+}
+
+// A FROM item as the query it is in sees it: a table or view, a CTE, a
+// derived table (a subquery with an alias) or a set-returning function
+export interface ScopeSource extends TableReference {
+	kind: 'table' | 'cte' | 'derived' | 'function';
+	query: QueryScope | null; // The CTE's or derived table's SELECT
+	columnNames: string[] | null; // From a column list: WITH x(a, b) AS or AS t(a, b)
+	lateral: boolean;
+	position: number; // Offset in the statement
+}
+
+// An output column of a SELECT list, or a * that expands to several
+export type ProjectionItem =
+	| { name: string; column: { qualifier: string | null; name: string } | null } // column: when it is a plain column reference
+	| { star: true; qualifier: string | null };
+
+// How a subquery sees the FROM items of the query around it: an expression
+// (WHERE x IN (SELECT ...)) sees them all, a LATERAL one those before it, and
+// CTEs and other derived tables none
+export type ScopeKind = 'statement' | 'cte' | 'derived' | 'lateral' | 'expression';
+
+// One SELECT (or UPDATE, DELETE, INSERT) and the names it can use
+export interface QueryScope {
+	kind: ScopeKind;
+	start: number;
+	end: number;
+	sources: ScopeSource[];
+	ctes: ScopeSource[]; // Defined by its WITH
+	projection: ProjectionItem[];
+	parent: QueryScope | null;
+}
+
+export interface QueryAnalysis {
+	scopes: QueryScope[];
+	declarations: Set<number>; // Offsets of names that declare a table, alias, CTE or output column rather than use a column
 }
 
 export type SQLContext =
-	| { type: 'SELECT_COLUMNS'; tables: string[]; partial: string }
-	| { type: 'FROM_TABLE'; partial: string }
-	| { type: 'JOIN_TABLE'; partial: string }
-	| { type: 'JOIN_ON'; leftTable: string; rightTable: string; tables: string[]; partial: string }
-	| { type: 'WHERE_COLUMN'; tables: string[]; partial: string }
-	| { type: 'TABLE_COLUMN'; table: string; partial: string }
+	| { type: 'SELECT_COLUMNS'; tables: ScopeSource[]; partial: string }
+	| { type: 'FROM_TABLE'; ctes: ScopeSource[]; partial: string }
+	| { type: 'JOIN_TABLE'; ctes: ScopeSource[]; partial: string }
+	| { type: 'JOIN_ON'; left: ScopeSource; right: ScopeSource; tables: ScopeSource[]; partial: string }
+	| { type: 'WHERE_COLUMN'; tables: ScopeSource[]; partial: string }
+	// After "name." (a table, an alias or a schema) or "schema.table."; source is the FROM item it names, if any
+	| { type: 'TABLE_COLUMN'; table: string; schema: string | null; source: ScopeSource | null; partial: string }
+	// In a string literal compared to a column (status = '|' or status IN ('a', '|')
+	| { type: 'COLUMN_VALUE'; column: string; qualifier: string | null; tables: ScopeSource[]; partial: string }
+	// In the string literal of nextval('|'), currval or setval
+	| { type: 'SEQUENCE_NAME'; partial: string }
+	// After :: or CAST(... AS
+	| { type: 'TYPE_NAME'; partial: string }
+	// At the start of any other string literal, where nothing is completed
+	| { type: 'LITERAL'; partial: string }
 	| { type: 'KEYWORD'; partial: string }
 	| { type: 'UNKNOWN'; partial: string };
+
+export type CompletionKind = 'column' | 'table' | 'view' | 'sequence' | 'schema' | 'function' | 'type' | 'value' | 'keyword' | 'join';
+
+export interface Completion {
+	text: string; // Replaces `partial`
+	kind: CompletionKind;
+	detail?: string; // A column's data type, a function's signature, ...
+	partial: string; // The word being typed, which the completion replaces
+}
@@ -0,0 +1,68 @@
+import { formatSshDestination, type ConnectionConfig } from '../connection/index.js';
+import type { DatabaseDriver, DriverResult, TableDescription } from '../drivers/index.js';
+import type { MetaCommand } from './metaCommands.js';
+
+export type CatalogCommand = Extract<MetaCommand, { type: 'list' | 'describe' }>;
+
+export function isCatalogCommand(command: MetaCommand): command is CatalogCommand {
+	return command.type === 'list' || command.type === 'describe';
+}
+
+const DESCRIBE_COLUMNS = ['Column', 'Type', 'Nullable', 'Default', 'Indexes', 'References'];
+
+/**
+ * Lay out \d output as one row per column, listing the indexes the column is
+ * part of and what it references. Multi-column keys show their column list.
+ */
+export function describeTableResult(table: TableDescription): DriverResult {
+	const rows = table.columns.map((column) => ({
+		Column: column.name,
+		Type: column.type,
+		Nullable: column.nullable ? '' : 'not null',
+		Default: column.default ?? '',
+		Indexes: table.indexes
+			.filter((index) => index.columns.includes(column.name))
+			.map((index) => {
+				const kind = index.primary ? 'primary key' : index.unique ? 'unique' : '';
+				const columns = index.columns.length > 1 ? index.columns.join(', ') : '';
+				const details = [kind, columns].filter(Boolean).join('; ');
+				return details ? `${index.name} (${details})` : index.name;
+			})
+			.join(', '),
+		References: table.foreignKeys
+			.filter((key) => key.columns.includes(column.name))
+			.map((key) => `${key.referencedTable}(${key.referencedColumns.join(', ')})`)
+			.join(', '),
+	}));
+	return {
+		fields: DESCRIBE_COLUMNS.map((name) => ({ name, dataType: 'text' })),
+		rows,
+		rowCount: rows.length,
+	};
+}
+
+// Run \d, \dt, \dn, ... and return the rows to show
+export async function runCatalogCommand(driver: DatabaseDriver, command: CatalogCommand): Promise<DriverResult> {
+	if (command.type === 'describe') {
+		return describeTableResult(await driver.describeTable(command.name));
+	}
+	return driver.listObjects(command.kind, command.pattern);
+}
+
+/**
+ * The \conninfo message, worded like psql's.
+ */
+export function formatConnectionInfo(config: ConnectionConfig, user: string, encrypted?: boolean): string {
+	if (config.driver === 'sqlite') {
+		return `You are connected to SQLite database "${config.database}".`;
+	}
+	const where = config.host.startsWith('/') ? `via socket in "${config.host}"` : `on host "${config.host}"`;
+	let info = `You are connected to database "${config.database}" as user "${user}" ${where} at port "${config.port}".`;
+	if (encrypted) {
+		info += ' The connection is encrypted with TLS.';
+	}
+	if (config.ssh) {
+		info += ` Tunnelled through ${formatSshDestination(config.ssh)}.`;
+	}
+	return info;
+}
@@ -0,0 +1,9 @@
+export {
+	parseMetaCommand,
+	parseBooleanSetting,
+	changesCurrentSchema,
+	describeExpandedMode,
+	type ExpandedMode,
+	type MetaCommand,
+} from './metaCommands.js';
+export { isCatalogCommand, runCatalogCommand, describeTableResult, formatConnectionInfo, type CatalogCommand } from './catalog.js';
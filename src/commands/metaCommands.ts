@@ -0,0 +1,155 @@
+import type { CatalogKind, CatalogPattern } from '../drivers/index.js';
+
+export type MetaCommand =
+	| { type: 'connect'; database: string | null }
+	| { type: 'schema'; schema: string | null }
+	| { type: 'set'; name: string; value: string }
+	| { type: 'edit' }
+	| { type: 'history' }
+	| { type: 'saved' }
+	| { type: 'list'; kind: CatalogKind; pattern: CatalogPattern }
+	| { type: 'describe'; name: string } // As typed, quotes included
+	| { type: 'expanded'; enabled: ExpandedMode | null } // null toggles
+	| { type: 'timing'; enabled: boolean | null }
+	| { type: 'conninfo' }
+	| { type: 'quit' };
+
+// 'auto' expands only results too wide for the terminal, as psql's \x auto
+export type ExpandedMode = boolean | 'auto';
+
+// Catalog listings by command name; \d with a name describes that table instead
+const LIST_COMMANDS: Record<string, CatalogKind> = {
+	d: 'relations',
+	dt: 'tables',
+	dn: 'schemas',
+	df: 'functions',
+	di: 'indexes',
+	du: 'roles',
+	dg: 'roles',
+	l: 'databases',
+	list: 'databases',
+};
+
+const AVAILABLE_COMMANDS =
+	'\\c [database], \\schema [name], \\d [table], \\dt, \\dn, \\df, \\di, \\du, \\l, \\x [on|off|auto], \\timing, \\conninfo, \\set NAME value, \\e, \\s, \\saved, \\q';
+
+// psql-style names may be double-quoted to keep spaces or case: \c "My DB"
+function unquote(value: string): string {
+	return value.startsWith('"') && value.endsWith('"') && value.length > 1 ? value.slice(1, -1).replace(/""/g, '"') : value;
+}
+
+// Listings whose objects live in a schema, so "\dt app.*" filters on both parts
+const SCHEMA_QUALIFIED: CatalogKind[] = ['relations', 'tables', 'indexes', 'functions'];
+
+// psql patterns use * and ? as wildcards
+function toLikePattern(pattern: string): string {
+	return pattern.replace(/\*/g, '%').replace(/\?/g, '_');
+}
+
+// Split "schema.name" at the first dot outside double quotes; an empty side matches anything
+function parseCatalogPattern(kind: CatalogKind, pattern: string | null): CatalogPattern {
+	if (pattern === null) {
+		return { schema: null, name: null };
+	}
+	let quoted = false;
+	for (let i = 0; i < pattern.length && SCHEMA_QUALIFIED.includes(kind); i++) {
+		if (pattern[i] === '"') {
+			quoted = !quoted;
+		} else if (pattern[i] === '.' && !quoted) {
+			const schema = unquote(pattern.slice(0, i));
+			const name = unquote(pattern.slice(i + 1));
+			return { schema: toLikePattern(schema || '*'), name: toLikePattern(name || '*') };
+		}
+	}
+	return { schema: null, name: toLikePattern(unquote(pattern)) };
+}
+
+/**
+ * Parse a backslash command typed in the query editor, e.g. "\c otherdb" or "\schema app".
+ * Returns null when the input is SQL rather than a command.
+ */
+export function parseMetaCommand(input: string): MetaCommand | null {
+	// A trailing ; is harmless, as in psql
+	const trimmed = input.trim().replace(/;+$/, '').trimEnd();
+	if (!trimmed.startsWith('\\')) {
+		return null;
+	}
+
+	const match = trimmed.match(/^\\(\S+)\s*(.*)$/);
+	if (!match) {
+		throw new Error(`Invalid command ${trimmed.split('\n')[0]}. Available commands: ${AVAILABLE_COMMANDS}`);
+	}
+	const [, name, rest] = match;
+	const argument = rest.trim() ? unquote(rest.trim()) : null;
+
+	// \dt+ and friends: the extra detail is not shown, but the command still works
+	const listName = name.replace(/\+$/, '');
+	if (listName === 'd' && argument !== null) {
+		return { type: 'describe', name: rest.trim() };
+	}
+	if (Object.hasOwn(LIST_COMMANDS, listName)) {
+		const kind = LIST_COMMANDS[listName];
+		return { type: 'list', kind, pattern: parseCatalogPattern(kind, rest.trim() || null) };
+	}
+
+	switch (name) {
+		case 'c':
+		case 'connect':
+			return { type: 'connect', database: argument };
+		case 'schema':
+			return { type: 'schema', schema: argument };
+		case 'e':
+		case 'edit':
+			return { type: 'edit' };
+		case 's':
+			return { type: 'history' };
+		case 'saved':
+			return { type: 'saved' };
+		case 'set': {
+			const [variable, ...value] = rest.trim().split(/\s+/);
+			if (!variable || value.length === 0) {
+				throw new Error('Usage: \\set NAME value, e.g. \\set ON_ERROR_STOP off');
+			}
+			return { type: 'set', name: variable.toUpperCase(), value: unquote(value.join(' ')) };
+		}
+		case 'x':
+			if (argument?.toLowerCase() === 'auto') {
+				return { type: 'expanded', enabled: 'auto' };
+			}
+			return { type: 'expanded', enabled: argument === null ? null : parseBooleanSetting('\\x', argument) };
+		case 'timing':
+			return { type: 'timing', enabled: argument === null ? null : parseBooleanSetting('\\timing', argument) };
+		case 'conninfo':
+			return { type: 'conninfo' };
+		case 'q':
+		case 'quit':
+			return { type: 'quit' };
+		default:
+			throw new Error(`Unknown command \\${name}. Available commands: ${AVAILABLE_COMMANDS}`);
+	}
+}
+
+/**
+ * The message shown after \x, worded like psql's.
+ */
+export function describeExpandedMode(mode: ExpandedMode): string {
+	return mode === 'auto' ? 'Expanded display is used automatically.' : `Expanded display is ${mode ? 'on' : 'off'}.`;
+}
+
+/**
+ * Parse a psql-style boolean variable value: on/off, true/false, yes/no or 1/0.
+ */
+export function parseBooleanSetting(name: string, value: string): boolean {
+	const normalized = value.toLowerCase();
+	if (['on', 'true', 'yes', '1'].includes(normalized)) return true;
+	if (['off', 'false', 'no', '0'].includes(normalized)) return false;
+	throw new Error(`Invalid value "${value}" for ${name}: expected on or off`);
+}
+
+/**
+ * Whether a statement changes which schema unqualified names resolve to,
+ * so autocomplete needs to reload: SET search_path in Postgres, USE in MySQL.
+ */
+export function changesCurrentSchema(sql: string): boolean {
+	return /^\s*(?:SET\s+(?:SESSION\s+)?search_path\b|RESET\s+(?:search_path|ALL)\b|USE\s)/i.test(sql);
+}
@@ -0,0 +1,164 @@
+import React, { useState, useMemo } from 'react';
+import { Box, Text, useInput, useStdout } from 'ink';
+import { filterHistory, type DateRange, type HistoryEntry, type StatusFilter } from '../history/index.js';
+import { truncate } from '../types.js';
+
+interface HistoryBrowserProps {
+	entries: HistoryEntry[]; // Oldest first
+	onRun: (entry: HistoryEntry) => void;
+	onEdit: (entry: HistoryEntry) => void; // Copy into the editor without running
+	onOpenInEditor: (entry: HistoryEntry) => void; // Edit in $VISUAL or $EDITOR, as \e does
+	onDelete: (index: number) => void;
+	onClose: () => void;
+}
+
+const STATUSES: StatusFilter[] = ['all', 'ok', 'error'];
+const RANGES: DateRange[] = ['all', 'today', 'week', 'month'];
+const STATUS_LABELS: Record<StatusFilter, string> = { all: 'any status', ok: 'succeeded', error: 'failed' };
+const RANGE_LABELS: Record<DateRange, string> = { all: 'any time', today: 'today', week: 'last 7 days', month: 'last 30 days' };
+
+function next<T>(values: T[], current: T): T {
+	return values[(values.indexOf(current) + 1) % values.length];
+}
+
+// Local "YYYY-MM-DD HH:MM"
+function formatTime(time: string): string {
+	const date = new Date(time);
+	if (Number.isNaN(date.getTime())) return ''.padEnd(16);
+	const pad = (value: number) => String(value).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatDuration(ms: number | undefined): string {
+	if (ms === undefined) return '';
+	return ms < 1000 ? `${ms.toFixed(0)}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatRows(rowCount: number | null | undefined): string {
+	if (rowCount === undefined || rowCount === null) return '';
+	return `${rowCount} row${rowCount === 1 ? '' : 's'}`;
+}
+
+/**
+ * Every run of a query on this connection, newest first, with when it ran,
+ * how long it took, its row count and whether it failed.
+ */
+export const HistoryBrowser = ({ entries, onRun, onEdit, onOpenInEditor, onDelete, onClose }: HistoryBrowserProps) => {
+	const { stdout } = useStdout();
+	const [text, setText] = useState('');
+	const [status, setStatus] = useState<StatusFilter>('all');
+	const [range, setRange] = useState<DateRange>('all');
+	const [selected, setSelected] = useState(0);
+
+	const matches = useMemo(() => filterHistory(entries, { text, status, range }), [entries, text, status, range]);
+	const selectedIndex = Math.min(selected, Math.max(0, matches.length - 1));
+	const current = matches.length > 0 ? entries[matches[selectedIndex]] : undefined;
+
+	// Leave room for the title, the selected query and the help line
+	const visibleItems = Math.max(5, (stdout?.rows ?? 24) - 16);
+	const offset = Math.max(0, selectedIndex - visibleItems + 1);
+	const visible = matches.slice(offset, offset + visibleItems);
+	const width = (stdout?.columns ?? 80) - 4;
+
+	const durationWidth = Math.max(0, ...visible.map((index) => formatDuration(entries[index].durationMs).length));
+	const rowsWidth = Math.max(0, ...visible.map((index) => formatRows(entries[index].rowCount).length));
+	const databaseWidth = Math.max(0, ...visible.map((index) => (entries[index].database ?? '').length));
+
+	useInput((input, key) => {
+		if (key.escape) {
+			onClose();
+		} else if (key.return) {
+			if (current) onRun(current);
+		} else if (key.ctrl && input === 'e') {
+			if (current) onEdit(current);
+		} else if (key.ctrl && input === 'x') {
+			if (current) onOpenInEditor(current);
+		} else if (key.ctrl && input === 'd') {
+			if (current) onDelete(matches[selectedIndex]);
+		} else if (key.tab) {
+			setStatus(next(STATUSES, status));
+			setSelected(0);
+		} else if (key.ctrl && input === 't') {
+			setRange(next(RANGES, range));
+			setSelected(0);
+		} else if (key.upArrow) {
+			setSelected(Math.max(0, selectedIndex - 1));
+		} else if (key.downArrow) {
+			setSelected(Math.min(matches.length - 1, selectedIndex + 1));
+		} else if (key.pageUp) {
+			setSelected(Math.max(0, selectedIndex - visibleItems));
+		} else if (key.pageDown) {
+			setSelected(Math.max(0, Math.min(matches.length - 1, selectedIndex + visibleItems)));
+		} else if (key.backspace || key.delete) {
+			setText((prev) => prev.slice(0, -1));
+			setSelected(0);
+		} else if (input && !key.ctrl && !key.meta) {
+			setText((prev) => prev + input);
+			setSelected(0);
+		}
+	});
+
+	return (
+		<Box flexDirection="column">
+			<Text>
+				<Text bold>Query history</Text>
+				{text && <Text dimColor> filter: </Text>}
+				{text && <Text color="cyan">{text}</Text>}
+				<Text dimColor>
+					{' '}• {STATUS_LABELS[status]} • {RANGE_LABELS[range]} • {matches.length} of {entries.length}
+				</Text>
+			</Text>
+			<Box flexDirection="column" marginTop={1}>
+				{matches.length === 0 ? (
+					<Text dimColor>{entries.length === 0 ? 'No history yet' : 'No matches'}</Text>
+				) : (
+					visible.map((index, idx) => {
+						const entry = entries[index];
+						const isSelected = offset + idx === selectedIndex;
+						const details = [
+							formatTime(entry.time),
+							formatDuration(entry.durationMs).padStart(durationWidth),
+							formatRows(entry.rowCount).padStart(rowsWidth),
+							(entry.database ?? '').padEnd(databaseWidth),
+						].join('  ');
+						const query = entry.query.replace(/\s+/g, ' ');
+						return (
+							<Text key={`${entry.time}-${index}`} wrap="truncate">
+								<Text color={isSelected ? 'cyan' : undefined} bold={isSelected}>
+									{isSelected ? '› ' : '  '}
+								</Text>
+								<Text color={entry.status === 'error' ? 'red' : 'green'}>{entry.status === 'error' ? '✗' : '✓'} </Text>
+								<Text dimColor>{details}  </Text>
+								<Text color={isSelected ? 'cyan' : undefined}>{truncate(query, Math.max(10, width - details.length - 6))}</Text>
+							</Text>
+						);
+					})
+				)}
+				{matches.length > visibleItems && (
+					<Text dimColor>
+						{offset + 1}-{offset + visible.length} of {matches.length}
+					</Text>
+				)}
+			</Box>
+			{current && (
+				<Box flexDirection="column" marginTop={1} borderStyle="single" borderColor="gray" paddingX={1}>
+					<Text>{current.query.split('\n').slice(0, 6).join('\n')}</Text>
+					{current.params && (
+						<Text dimColor>
+							Parameters:{' '}
+							{Object.entries(current.params)
+								.map(([name, value]) => `${name} = ${value}`)
+								.join(', ')}
+						</Text>
+					)}
+					{current.error && <Text color="red">Error: {current.error}</Text>}
+				</Box>
+			)}
+			<Box marginTop={1}>
+				<Text dimColor>
+					Type to filter • Tab status • Ctrl+T date • ↑↓ select • Enter run • Ctrl+E copy to editor • Ctrl+X $EDITOR • Ctrl+D delete • Esc close
+				</Text>
+			</Box>
+		</Box>
+	);
+};
@@ -0,0 +1,80 @@
+import React, { useState, useMemo } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { searchHistory } from '../history/index.js';
+
+interface HistorySearchProps {
+	entries: string[]; // Oldest first
+	onSelect: (index: number) => void;
+	onCancel: () => void;
+}
+
+// The entry with the first occurrence of term highlighted
+const Highlighted = ({ text, term }: { text: string; term: string }) => {
+	const start = term ? text.toLowerCase().indexOf(term.toLowerCase()) : -1;
+	if (start === -1) {
+		return <Text>{text}</Text>;
+	}
+	return (
+		<Text>
+			{text.slice(0, start)}
+			<Text inverse>{text.slice(start, start + term.length)}</Text>
+			{text.slice(start + term.length)}
+		</Text>
+	);
+};
+
+/**
+ * Reverse incremental search, as Ctrl+R in bash: typing narrows down to the
+ * newest matching entry, Ctrl+R again steps to older matches, Enter picks it.
+ */
+export const HistorySearch = ({ entries, onSelect, onCancel }: HistorySearchProps) => {
+	const [term, setTerm] = useState('');
+	const [position, setPosition] = useState(0);
+
+	const matches = useMemo(() => searchHistory(entries, term), [entries, term]);
+	const current = matches[Math.min(position, matches.length - 1)];
+
+	useInput((input, key) => {
+		if (key.escape || (key.ctrl && input === 'g')) {
+			onCancel();
+		} else if (key.return) {
+			if (current !== undefined) onSelect(current);
+		} else if ((key.ctrl && input === 'r') || key.upArrow) {
+			setPosition(Math.min(matches.length - 1, position + 1));
+		} else if ((key.ctrl && input === 's') || key.downArrow) {
+			setPosition(Math.max(0, position - 1));
+		} else if (key.backspace || key.delete) {
+			setTerm((prev) => prev.slice(0, -1));
+			setPosition(0);
+		} else if (input && !key.ctrl && !key.meta) {
+			setTerm((prev) => prev + input);
+			setPosition(0);
+		}
+	});
+
+	return (
+		<Box flexDirection="column">
+			<Text>
+				<Text color={current === undefined ? 'red' : 'cyan'}>
+					{current === undefined ? '(failed reverse-i-search)' : '(reverse-i-search)'}
+				</Text>
+				`{term}'{' '}
+				{matches.length > 0 && (
+					<Text dimColor>
+						{Math.min(position, matches.length - 1) + 1}/{matches.length}
+					</Text>
+				)}
+			</Text>
+			<Box marginTop={1}>
+				{current === undefined ? (
+					<Text dimColor>{entries.length === 0 ? 'No history yet' : 'No matches'}</Text>
+				) : (
+					<Highlighted text={entries[current]} term={term} />
+				)}
+			</Box>
+			<Box marginTop={1}>
+				<Text dimColor>Type to search • Ctrl+R/↑ older • Ctrl+S/↓ newer • Enter insert • Esc cancel</Text>
+			</Box>
+		</Box>
+	);
+};
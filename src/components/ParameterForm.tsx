@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import TextInput from 'ink-mini-code-editor';
+import type { ParameterValues, Placeholder } from '../sql/index.js';
+
+interface ParameterFormProps {
+	parameters: Placeholder[]; // One per name
+	types: Record<string, string>; // Column types by parameter name, where known
+	initialValues: ParameterValues; // From the last run of the same query
+	onSubmit: (values: ParameterValues) => void;
+	onCancel: () => void;
+}
+
+/**
+ * Prompts for the value of each bind parameter. Enter moves to the next field
+ * and runs the query from the last one; Tab / ↑↓ move between fields.
+ */
+export const ParameterForm = ({ parameters, types, initialValues, onSubmit, onCancel }: ParameterFormProps) => {
+	const [values, setValues] = useState<ParameterValues>(() =>
+		Object.fromEntries(parameters.map((parameter) => [parameter.name, initialValues[parameter.name] ?? '']))
+	);
+	const [active, setActive] = useState(0);
+
+	const labelWidth = Math.max(...parameters.map((parameter) => parameter.label.length));
+	const typeWidth = Math.max(0, ...parameters.map((parameter) => types[parameter.name]?.length ?? 0));
+
+	useInput((_input, key) => {
+		if (key.escape) {
+			onCancel();
+		} else if (key.upArrow || (key.tab && key.shift)) {
+			setActive((current) => Math.max(0, current - 1));
+		} else if (key.downArrow || key.tab) {
+			setActive((current) => Math.min(parameters.length - 1, current + 1));
+		}
+	});
+
+	const handleSubmit = () => {
+		if (active < parameters.length - 1) {
+			setActive(active + 1);
+		} else {
+			onSubmit(values);
+		}
+	};
+
+	return (
+		<Box flexDirection="column">
+			<Text bold>Query parameters</Text>
+			{parameters.map((parameter, idx) => {
+				const isActive = idx === active;
+				return (
+					<Box key={parameter.name}>
+						<Text color={isActive ? 'cyan' : undefined} bold={isActive}>
+							{isActive ? '› ' : '  '}
+							{parameter.label.padEnd(labelWidth)}{' '}
+						</Text>
+						{typeWidth > 0 && <Text dimColor>{(types[parameter.name] ?? '').padEnd(typeWidth)} </Text>}
+						{isActive ? (
+							<TextInput
+								value={values[parameter.name]}
+								onChange={(value) => setValues((current) => ({ ...current, [parameter.name]: value }))}
+								onSubmit={handleSubmit}
+							/>
+						) : (
+							<Text>{values[parameter.name]}</Text>
+						)}
+					</Box>
+				);
+			})}
+			<Box marginTop={1}>
+				<Text dimColor>Tab/↑↓ move • Enter next field, run from the last • NULL for a null value • Esc cancel</Text>
+			</Box>
+		</Box>
+	);
+};
@@ -0,0 +1,80 @@
+import React, { useState, useMemo } from 'react';
+import { Box, Text, useInput } from 'ink';
+
+interface PickerProps {
+	title: string;
+	items: string[];
+	current?: string | null; // Marked in the list and selected initially
+	onSelect: (item: string) => void;
+	onCancel: () => void;
+}
+
+const VISIBLE_ITEMS = 10;
+
+/**
+ * A filterable list: type to narrow it down, ↑↓ to move, Enter to pick, Esc to cancel.
+ */
+export const Picker = ({ title, items, current, onSelect, onCancel }: PickerProps) => {
+	const [filter, setFilter] = useState('');
+	const [selected, setSelected] = useState(() => Math.max(0, current ? items.indexOf(current) : 0));
+
+	const matches = useMemo(() => {
+		const needle = filter.toLowerCase();
+		return items.filter((item) => item.toLowerCase().includes(needle));
+	}, [items, filter]);
+
+	const selectedIndex = Math.min(selected, Math.max(0, matches.length - 1));
+	// Keep the selection inside the visible window
+	const offset = Math.max(0, selectedIndex - VISIBLE_ITEMS + 1);
+	const visible = matches.slice(offset, offset + VISIBLE_ITEMS);
+
+	useInput((input, key) => {
+		if (key.escape) {
+			onCancel();
+		} else if (key.return) {
+			if (matches[selectedIndex] !== undefined) onSelect(matches[selectedIndex]);
+		} else if (key.upArrow) {
+			setSelected(Math.max(0, selectedIndex - 1));
+		} else if (key.downArrow) {
+			setSelected(Math.min(matches.length - 1, selectedIndex + 1));
+		} else if (key.backspace || key.delete) {
+			setFilter((prev) => prev.slice(0, -1));
+			setSelected(0);
+		} else if (input && !key.ctrl && !key.meta) {
+			setFilter((prev) => prev + input);
+			setSelected(0);
+		}
+	});
+
+	return (
+		<Box flexDirection="column">
+			<Box>
+				<Text bold>{title}</Text>
+				{filter && <Text dimColor> filter: </Text>}
+				{filter && <Text color="cyan">{filter}</Text>}
+			</Box>
+			{matches.length === 0 ? (
+				<Text dimColor>No matches</Text>
+			) : (
+				visible.map((item, idx) => {
+					const isSelected = offset + idx === selectedIndex;
+					return (
+						<Text key={item} color={isSelected ? 'cyan' : undefined} bold={isSelected}>
+							{isSelected ? '› ' : '  '}
+							{item}
+							{item === current && <Text dimColor> (current)</Text>}
+						</Text>
+					);
+				})
+			)}
+			{matches.length > VISIBLE_ITEMS && (
+				<Text dimColor>
+					{offset + 1}-{offset + visible.length} of {matches.length}
+				</Text>
+			)}
+			<Box marginTop={1}>
+				<Text dimColor>Type to filter • ↑↓ select • Enter choose • Esc cancel</Text>
+			</Box>
+		</Box>
+	);
+};
@@ -4,11 +4,14 @@ import { ResultHeader } from './ResultHeader.js';
 import { ResultRow } from './ResultRow.js';
 import { ResultFooter } from './ResultFooter.js';
 import { ScrollIndicator } from './ScrollIndicator.js';
-import { fitColumnsToWidth, calculateTableWidth, getVisibleColumnRange, type QueryResultData } from '../types.js';
+import { fitColumnsToWidth, calculateTableWidth, getVisibleColumnRange, expandRecords, type QueryResultData } from '../types.js';
+import type { ExpandedMode } from '../commands/index.js';
 
 interface QueryResultsProps {
 	data: QueryResultData;
 	onBack: () => void;
+	expanded?: ExpandedMode; // \x: one row per column; 'auto' only when the table is wider than the terminal
+	showTiming?: boolean; // \timing
 }
 
 interface ViewState {
@@ -20,7 +23,7 @@ interface ViewState {
 const DEFAULT_VISIBLE_ROWS = 15;
 const PAGE_SIZE = 10;
 
-export const QueryResults = ({ data, onBack }: QueryResultsProps) => {
+export const QueryResults = ({ data: result, onBack, expanded = false, showTiming = true }: QueryResultsProps) => {
 	const { stdout } = useStdout();
 	const [view, setView] = useState<ViewState>({ selectedRow: 0, scrollOffset: 0, scrollOffsetX: 0 });
 
@@ -28,6 +31,9 @@ export const QueryResults = ({ data, onBack }: QueryResultsProps) => {
 	const terminalHeight = stdout?.rows ?? 24;
 	const terminalWidth = stdout?.columns ?? 80;
 
+	const expand = expanded === 'auto' ? calculateTableWidth(result.columns) > terminalWidth : expanded;
+	const data = useMemo(() => (expand ? expandRecords(result) : result), [result, expand]);
+
 	// Calculate visible rows based on terminal height (reserve space for header/footer)
 	const visibleRows = Math.max(5, Math.min(DEFAULT_VISIBLE_ROWS, terminalHeight - 12));
 
@@ -137,10 +143,12 @@ export const QueryResults = ({ data, onBack }: QueryResultsProps) => {
 	}
 
 	if (data.rows.length === 0) {
+		// Statements without a result set (INSERT, UPDATE, DDL) report the rows they affected
+		const summary = data.columns.length > 0 ? 'No rows returned.' : `${data.rowCount} row${data.rowCount === 1 ? '' : 's'} affected.`;
 		return (
 			<Box flexDirection="column" padding={1}>
 				<Text color="yellow">Query executed successfully.</Text>
-				<Text dimColor>No rows returned.</Text>
+				<Text dimColor>{summary}</Text>
 				<Box marginTop={1}>
 					<Text dimColor>Press q to go back</Text>
 				</Box>
@@ -172,7 +180,7 @@ export const QueryResults = ({ data, onBack }: QueryResultsProps) => {
 			<ResultFooter
 				columns={visibleColumns}
 				rowCount={data.rowCount}
-				executionTime={data.executionTime}
+				executionTime={showTiming ? data.executionTime : undefined}
 				viewStart={scrollOffset}
 				viewEnd={scrollOffset + visibleRows}
 				colStart={scrollOffsetX}
@@ -5,7 +5,7 @@ import type { ColumnInfo } from '../types.js';
 interface ResultFooterProps {
 	columns: ColumnInfo[];
 	rowCount: number;
-	executionTime: number;
+	executionTime?: number; // Hidden with \timing off
 	viewStart: number;
 	viewEnd: number;
 	colStart: number;
@@ -29,7 +29,7 @@ export const ResultFooter = ({ columns, rowCount, executionTime, viewStart, view
 						Cols {colStart + 1}-{colEnd} of {totalColumns}
 					</Text>
 				)}
-				<Text dimColor>({executionTime.toFixed(0)}ms)</Text>
+				{executionTime !== undefined && <Text dimColor>({executionTime.toFixed(0)}ms)</Text>}
 			</Box>
 			<Box marginTop={1}>
 				<Text dimColor>↑↓ rows • ←→ columns • PgUp/PgDn page • q back</Text>
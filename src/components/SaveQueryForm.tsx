@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import TextInput from 'ink-mini-code-editor';
+
+export interface SaveQueryValues {
+	name: string;
+	description: string;
+	tags: string; // Comma-separated
+}
+
+interface SaveQueryFormProps {
+	initialValues: SaveQueryValues; // From the saved query loaded into the editor, if any
+	error: string | null;
+	onSubmit: (values: SaveQueryValues) => void;
+	onCancel: () => void;
+}
+
+const FIELDS: { key: keyof SaveQueryValues; label: string; hint: string }[] = [
+	{ key: 'name', label: 'Name', hint: 'letters, digits, . - _' },
+	{ key: 'description', label: 'Description', hint: 'optional' },
+	{ key: 'tags', label: 'Tags', hint: 'optional, comma-separated' },
+];
+
+const LABEL_WIDTH = Math.max(...FIELDS.map((field) => field.label.length));
+
+/**
+ * Name, description and tags for saving the editor's query. Enter moves to
+ * the next field and saves from the last; Tab / ↑↓ move between fields.
+ */
+export const SaveQueryForm = ({ initialValues, error, onSubmit, onCancel }: SaveQueryFormProps) => {
+	const [values, setValues] = useState<SaveQueryValues>(initialValues);
+	const [active, setActive] = useState(0);
+
+	useInput((_input, key) => {
+		if (key.escape) {
+			onCancel();
+		} else if (key.upArrow || (key.tab && key.shift)) {
+			setActive((current) => Math.max(0, current - 1));
+		} else if (key.downArrow || key.tab) {
+			setActive((current) => Math.min(FIELDS.length - 1, current + 1));
+		}
+	});
+
+	const handleSubmit = () => {
+		if (active < FIELDS.length - 1) {
+			setActive(active + 1);
+		} else {
+			onSubmit(values);
+		}
+	};
+
+	return (
+		<Box flexDirection="column">
+			<Text bold>Save query</Text>
+			{FIELDS.map((field, idx) => {
+				const isActive = idx === active;
+				return (
+					<Box key={field.key}>
+						<Text color={isActive ? 'cyan' : undefined} bold={isActive}>
+							{isActive ? '› ' : '  '}
+							{field.label.padEnd(LABEL_WIDTH)}{' '}
+						</Text>
+						{isActive ? (
+							<TextInput
+								value={values[field.key]}
+								onChange={(value) => setValues((current) => ({ ...current, [field.key]: value }))}
+								onSubmit={handleSubmit}
+								placeholder={field.hint}
+							/>
+						) : (
+							<Text>{values[field.key]}</Text>
+						)}
+					</Box>
+				);
+			})}
+			{error && (
+				<Box marginTop={1}>
+					<Text color="red">Error: {error}</Text>
+				</Box>
+			)}
+			<Box marginTop={1}>
+				<Text dimColor>Tab/↑↓ move • Enter next field, save from the last • Esc cancel</Text>
+			</Box>
+		</Box>
+	);
+};
@@ -0,0 +1,108 @@
+import React, { useState, useMemo } from 'react';
+import { Box, Text, useInput, useStdout } from 'ink';
+import { getSavedQueriesDir, searchSavedQueries, type SavedQuery } from '../saved/index.js';
+
+interface SavedQueryPickerProps {
+	queries: SavedQuery[];
+	onSelect: (query: SavedQuery) => void;
+	onOpenInEditor: (query: SavedQuery) => void; // Edit in $VISUAL or $EDITOR, as \e does
+	onCancel: () => void;
+}
+
+const PREVIEW_LINES = 8;
+
+/**
+ * Fuzzy-find a saved query by name, tag or description and load it into the
+ * editor. The selected query's SQL is previewed below the list.
+ */
+export const SavedQueryPicker = ({ queries, onSelect, onOpenInEditor, onCancel }: SavedQueryPickerProps) => {
+	const { stdout } = useStdout();
+	const [filter, setFilter] = useState('');
+	const [selected, setSelected] = useState(0);
+
+	const matches = useMemo(() => searchSavedQueries(queries, filter), [queries, filter]);
+	const selectedIndex = Math.min(selected, Math.max(0, matches.length - 1));
+	const current = matches[selectedIndex];
+
+	const visibleItems = Math.max(3, (stdout?.rows ?? 24) - PREVIEW_LINES - 12);
+	const offset = Math.max(0, selectedIndex - visibleItems + 1);
+	const visible = matches.slice(offset, offset + visibleItems);
+	const nameWidth = Math.max(0, ...visible.map((query) => query.name.length));
+
+	useInput((input, key) => {
+		if (key.escape) {
+			onCancel();
+		} else if (key.return) {
+			if (current) onSelect(current);
+		} else if (key.ctrl && input === 'x') {
+			if (current) onOpenInEditor(current);
+		} else if (key.upArrow) {
+			setSelected(Math.max(0, selectedIndex - 1));
+		} else if (key.downArrow) {
+			setSelected(Math.min(matches.length - 1, selectedIndex + 1));
+		} else if (key.backspace || key.delete) {
+			setFilter((prev) => prev.slice(0, -1));
+			setSelected(0);
+		} else if (input && !key.ctrl && !key.meta) {
+			setFilter((prev) => prev + input);
+			setSelected(0);
+		}
+	});
+
+	if (queries.length === 0) {
+		return (
+			<Box flexDirection="column">
+				<Text bold>Saved queries</Text>
+				<Text dimColor>
+					No saved queries in {getSavedQueriesDir()} yet. Press Ctrl+S in the editor to save one.
+				</Text>
+				<Box marginTop={1}>
+					<Text dimColor>Esc back</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	const preview = current?.sql.split('\n') ?? [];
+
+	return (
+		<Box flexDirection="column">
+			<Box>
+				<Text bold>Saved queries</Text>
+				{filter && <Text dimColor> filter: </Text>}
+				{filter && <Text color="cyan">{filter}</Text>}
+			</Box>
+			{matches.length === 0 ? (
+				<Text dimColor>No matches</Text>
+			) : (
+				visible.map((query, idx) => {
+					const isSelected = offset + idx === selectedIndex;
+					return (
+						<Text key={query.name} wrap="truncate">
+							<Text color={isSelected ? 'cyan' : undefined} bold={isSelected}>
+								{isSelected ? '› ' : '  '}
+								{query.name.padEnd(nameWidth)}
+							</Text>
+							{query.tags.length > 0 && <Text color="magenta"> {query.tags.map((tag) => `#${tag}`).join(' ')}</Text>}
+							{query.description && <Text dimColor> {query.description}</Text>}
+						</Text>
+					);
+				})
+			)}
+			{matches.length > visibleItems && (
+				<Text dimColor>
+					{offset + 1}-{offset + visible.length} of {matches.length}
+				</Text>
+			)}
+			{current && (
+				<Box flexDirection="column" marginTop={1} borderStyle="single" borderColor="gray" paddingX={1}>
+					<Text>{preview.slice(0, PREVIEW_LINES).join('\n')}</Text>
+					{preview.length > PREVIEW_LINES && <Text dimColor>({preview.length - PREVIEW_LINES} more lines)</Text>}
+				</Box>
+			)}
+			<Box marginTop={1}>
+				<Text dimColor>Type to search names, tags and descriptions • ↑↓ select • Enter load into editor • Ctrl+X $EDITOR • Esc cancel</Text>
+			</Box>
+		</Box>
+	);
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Box, Text, useInput } from 'ink';
+import { QueryResults } from './QueryResults.js';
+import { truncate, type StatementResult } from '../types.js';
+import type { ExpandedMode } from '../commands/index.js';
+
+interface ScriptResultsProps {
+	statements: StatementResult[];
+	onBack: () => void;
+	expanded?: ExpandedMode; // \x: one row per column
+	showTiming?: boolean;
+}
+
+const STATUS_MARKS: Record<StatementResult['status'], { mark: string; color: string }> = {
+	ok: { mark: '✓', color: 'green' },
+	error: { mark: '✗', color: 'red' },
+	skipped: { mark: '·', color: 'gray' },
+};
+
+/**
+ * Results of a multi-statement script, one statement at a time.
+ * Tab / Shift+Tab step between statements; opens on the failed one, if any.
+ */
+export const ScriptResults = ({ statements, onBack, expanded, showTiming }: ScriptResultsProps) => {
+	const [index, setIndex] = useState(() => {
+		const failed = statements.findIndex((statement) => statement.status === 'error');
+		return failed === -1 ? statements.length - 1 : failed;
+	});
+	const current = statements[index];
+
+	useInput((input, key) => {
+		if (key.tab) {
+			const step = key.shift ? -1 : 1;
+			setIndex((index + step + statements.length) % statements.length);
+		} else if (!current.result && (input === 'q' || key.escape)) {
+			// QueryResults handles going back while it is shown
+			onBack();
+		}
+	});
+
+	return (
+		<Box flexDirection="column">
+			<Box gap={1}>
+				<Text bold>
+					Statement {index + 1} of {statements.length}
+				</Text>
+				<Text>
+					{statements.map((statement, idx) => (
+						<Text key={idx} color={STATUS_MARKS[statement.status].color} inverse={idx === index}>
+							{STATUS_MARKS[statement.status].mark}
+						</Text>
+					))}
+				</Text>
+			</Box>
+			<Text dimColor>{truncate(current.sql.replace(/\s+/g, ' '), 100)}</Text>
+			<Box marginTop={1} flexDirection="column">
+				{current.status === 'ok' && current.result ? (
+					<QueryResults key={index} data={current.result} onBack={onBack} expanded={expanded} showTiming={showTiming} />
+				) : current.status === 'error' ? (
+					<Box flexDirection="column" padding={1}>
+						<Text color="red">Error: {current.error}</Text>
+						<Box marginTop={1}>
+							<Text dimColor>Press q to go back</Text>
+						</Box>
+					</Box>
+				) : (
+					<Box flexDirection="column" padding={1}>
+						<Text dimColor>Not run: the script stopped at an earlier statement.</Text>
+						<Box marginTop={1}>
+							<Text dimColor>Press q to go back</Text>
+						</Box>
+					</Box>
+				)}
+			</Box>
+			<Text dimColor>Tab next statement • Shift+Tab previous</Text>
+		</Box>
+	);
+};
@@ -4,3 +4,10 @@ export { ResultRow } from './ResultRow.js';
 export { ResultCell } from './ResultCell.js';
 export { ResultFooter } from './ResultFooter.js';
 export { ScrollIndicator } from './ScrollIndicator.js';
+export { Picker } from './Picker.js';
+export { ScriptResults } from './ScriptResults.js';
+export { ParameterForm } from './ParameterForm.js';
+export { HistorySearch } from './HistorySearch.js';
+export { HistoryBrowser } from './HistoryBrowser.js';
+export { SaveQueryForm, type SaveQueryValues } from './SaveQueryForm.js';
+export { SavedQueryPicker } from './SavedQueryPicker.js';
@@ -0,0 +1,160 @@
+import { formatTarget, type ConnectionProfile } from './types.js';
+import { parseConnectionString } from './connectionString.js';
+import { parseSslMode } from './ssl.js';
+import { formatSshDestination, parseSshDestination } from './sshTunnel.js';
+import { addProfile, getProfilesPath, loadProfiles, parseSchemaList, removeProfile } from './profiles.js';
+
+function printUsage(): void {
+	console.error('Usage: qq connections list');
+	console.error('       qq connections add <name> <connection-string> [options]');
+	console.error('       qq connections remove <name>');
+	console.error('');
+	console.error('Options for add:');
+	console.error('  --user <username>   Username to connect as (skips the username prompt)');
+	console.error('  --schema <schema>   Default schema (search_path)');
+	console.error('  --schemas <list>    More schemas to load for autocomplete, comma-separated');
+	console.error('  --ssl               Require SSL (same as --sslmode require)');
+	console.error('  --sslmode <mode>    disable, allow, prefer, require, verify-ca or verify-full');
+	console.error('  --ssh <destination> Tunnel through an SSH bastion, user@host[:port]');
+	console.error('  --ssh-identity <f>  SSH private key (default: ssh-agent, then ~/.ssh/id_*)');
+	console.error('  --label <text>      Label shown in the header, e.g. PROD');
+	console.error('  --color <color>     Label color, e.g. red, yellow, green');
+}
+
+function describeProfile(profile: ConnectionProfile): string {
+	const userPart = profile.user ? `${profile.user}@` : '';
+	let description = `${userPart}${formatTarget(profile)}`;
+	if (profile.schema) {
+		description += ` (schema: ${profile.schema})`;
+	}
+	if (profile.ssl?.mode) {
+		description += ` [sslmode=${profile.ssl.mode}]`;
+	}
+	if (profile.ssh) {
+		description += ` via ssh ${formatSshDestination(profile.ssh)}`;
+	}
+	if (profile.label) {
+		description += ` [${profile.label}]`;
+	}
+	return description;
+}
+
+function listProfiles(): void {
+	const profiles = loadProfiles();
+	if (profiles.length === 0) {
+		console.log('No saved connections.');
+		console.log(`Add one with: qq connections add <name> <database-url>`);
+		return;
+	}
+
+	const nameWidth = Math.max(...profiles.map((p) => p.name.length));
+	for (const profile of profiles) {
+		console.log(`${profile.name.padEnd(nameWidth)}  ${describeProfile(profile)}`);
+	}
+}
+
+function parseAddArgs(args: string[]): ConnectionProfile {
+	const [name, url, ...rest] = args;
+	if (!name || !url || name.startsWith('-') || url.startsWith('-')) {
+		throw new Error('Both a profile name and a connection string are required');
+	}
+
+	const { password, ...config } = parseConnectionString(url);
+	if (password !== undefined) {
+		console.error('Warning: passwords are not stored in profiles; you will be prompted on connect');
+	}
+	const profile: ConnectionProfile = { name, ...config };
+	let sshIdentity: string | undefined;
+
+	for (let i = 0; i < rest.length; i++) {
+		const arg = rest[i];
+		const value = () => {
+			const next = rest[++i];
+			if (next === undefined) {
+				throw new Error(`Missing value for ${arg}`);
+			}
+			return next;
+		};
+
+		if (arg === '--user') {
+			profile.user = value();
+		} else if (arg === '--schema') {
+			profile.schema = value();
+		} else if (arg === '--schemas') {
+			profile.schemas = parseSchemaList(value());
+		} else if (arg === '--ssl') {
+			profile.ssl = { ...profile.ssl, mode: 'require' };
+		} else if (arg === '--sslmode') {
+			profile.ssl = { ...profile.ssl, mode: parseSslMode(value()) };
+		} else if (arg === '--ssh') {
+			profile.ssh = parseSshDestination(value());
+		} else if (arg === '--ssh-identity') {
+			sshIdentity = value();
+		} else if (arg === '--label') {
+			profile.label = value();
+		} else if (arg === '--color') {
+			profile.color = value();
+		} else {
+			throw new Error(`Unknown option: ${arg}`);
+		}
+	}
+
+	if (sshIdentity) {
+		if (!profile.ssh) {
+			throw new Error('--ssh-identity requires --ssh');
+		}
+		profile.ssh.identityFile = sshIdentity;
+	}
+
+	return profile;
+}
+
+/**
+ * Entry point for `qq connections <list|add|remove>`.
+ * Returns the process exit code.
+ */
+export function runConnectionsCommand(args: string[]): number {
+	const [subcommand, ...rest] = args;
+
+	try {
+		switch (subcommand) {
+			case 'list':
+			case undefined:
+				listProfiles();
+				return 0;
+
+			case 'add': {
+				const profile = parseAddArgs(rest);
+				const replaced = addProfile(profile);
+				console.log(`${replaced ? 'Updated' : 'Added'} connection "${profile.name}" in ${getProfilesPath()}`);
+				return 0;
+			}
+
+			case 'remove':
+			case 'rm': {
+				const name = rest[0];
+				if (!name) {
+					throw new Error('A profile name is required');
+				}
+				if (!removeProfile(name)) {
+					throw new Error(`Unknown connection profile "${name}"`);
+				}
+				console.log(`Removed connection "${name}"`);
+				return 0;
+			}
+
+			default:
+				console.error(`Unknown subcommand: ${subcommand}`);
+				console.error('');
+				printUsage();
+				return 1;
+		}
+	} catch (err) {
+		console.error(`Error: ${(err as Error).message}`);
+		if (subcommand === 'add') {
+			console.error('');
+			printUsage();
+		}
+		return 1;
+	}
+}
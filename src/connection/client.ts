@@ -0,0 +1,110 @@
+import dns from 'node:dns/promises';
+import net from 'node:net';
+import type tls from 'node:tls';
+import pg from 'pg';
+import type { ConnectionConfig } from './types.js';
+import { buildTlsOptions, getSslAttempts, resolveSslConfig } from './ssl.js';
+import { openSshTunnel, type SshTunnel } from './sshTunnel.js';
+
+export interface ConnectedClient {
+	client: pg.Client;
+	encrypted: boolean;
+	tunnel: SshTunnel | null;
+	// Open another session over the same route (tunnel and TLS settings) with the same credentials
+	openSession: () => Promise<pg.Client>;
+	// Ends the client, then tears down the SSH tunnel if there is one
+	close: () => Promise<void>;
+}
+
+/**
+ * Build a pg.Client for the given connection and credentials.
+ * The default schema, if any, is applied through the startup options so it
+ * survives without an extra round-trip.
+ */
+function createClient(config: ConnectionConfig, user: string, password: string, ssl: tls.ConnectionOptions | false): pg.Client {
+	return new pg.Client({
+		host: config.host,
+		port: config.port,
+		database: config.database,
+		user,
+		password,
+		ssl,
+		application_name: config.applicationName ?? 'qq',
+		connectionTimeoutMillis: config.connectTimeout ? config.connectTimeout * 1000 : undefined,
+		options: config.schema ? `-c search_path=${escapeOptionValue(config.schema)}` : undefined,
+	});
+}
+
+function escapeOptionValue(value: string): string {
+	// libpq splits startup options on whitespace; backslash escapes spaces and backslashes
+	return value.replace(/[\\\s]/g, '\\$&');
+}
+
+/**
+ * Connect to the server, negotiating TLS according to the connection's sslmode.
+ * For "allow" and "prefer" a failed first attempt is retried with the other setting.
+ *
+ * When the connection has an SSH bastion, a tunnel is opened first and the
+ * client connects through its local port; TLS still verifies the real host name.
+ */
+export async function connectClient(config: ConnectionConfig, user: string, password: string): Promise<ConnectedClient> {
+	const tunnel = config.ssh ? await openSshTunnel(config.ssh, config.host, config.port) : null;
+
+	try {
+		const { client, encrypted } = await connectWithSsl(config, user, password, tunnel);
+		return {
+			client,
+			encrypted,
+			tunnel,
+			openSession: async () => (await connectWithSsl(config, user, password, tunnel)).client,
+			close: async () => {
+				await client.end().catch(() => {});
+				await tunnel?.close();
+			},
+		};
+	} catch (err) {
+		await tunnel?.close();
+		throw err;
+	}
+}
+
+async function connectWithSsl(
+	config: ConnectionConfig,
+	user: string,
+	password: string,
+	tunnel: SshTunnel | null
+): Promise<{ client: pg.Client; encrypted: boolean }> {
+	const ssl = resolveSslConfig(config.ssl);
+	const attempts = getSslAttempts(ssl.mode);
+	const isHostName = net.isIP(config.host) === 0 && !config.host.startsWith('/');
+
+	let target = config;
+	if (tunnel) {
+		target = { ...config, host: tunnel.localHost, port: tunnel.localPort };
+	} else if (ssl.servername && attempts.includes(true) && isHostName) {
+		// pg always sends the host name as SNI, so an override only takes effect
+		// when connecting by address
+		target = { ...config, host: (await dns.lookup(config.host)).address };
+	}
+
+	let lastError: unknown;
+	for (const encrypted of attempts) {
+		let tlsOptions: tls.ConnectionOptions | false = false;
+		if (encrypted) {
+			tlsOptions = buildTlsOptions(ssl, config.host);
+			// Through a tunnel pg only sees 127.0.0.1, so send the real host name as SNI
+			if (tunnel && !tlsOptions.servername && isHostName) {
+				tlsOptions.servername = config.host;
+			}
+		}
+		const client = createClient(target, user, password, tlsOptions);
+		try {
+			await client.connect();
+			return { client, encrypted };
+		} catch (err) {
+			lastError = err;
+			await client.end().catch(() => {});
+		}
+	}
+	throw lastError;
+}
@@ -0,0 +1,10 @@
+export type { ConnectionConfig, DriverName, ConnectionProfile, SshConfig, SslConfig, SslMode } from './types.js';
+export { formatAddress, formatTarget } from './types.js';
+export { parseConnectionString, parseAddress } from './connectionString.js';
+export { loadProfiles, findProfile, addProfile, removeProfile, getConfigDir, getProfilesPath, parseSchemaList } from './profiles.js';
+export { resolveConnection } from './resolve.js';
+export { connectClient, type ConnectedClient } from './client.js';
+export { parseSslMode, resolveSslConfig, getSslAttempts, buildTlsOptions } from './ssl.js';
+export { openSshTunnel, parseSshDestination, formatSshDestination, type SshTunnel } from './sshTunnel.js';
+export { lookupPgpass, resolvePassword } from './pgpass.js';
+export { runConnectionsCommand } from './cli.js';
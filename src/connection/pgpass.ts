@@ -0,0 +1,106 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { ConnectionConfig } from './types.js';
+
+interface PgpassEntry {
+	host: string;
+	port: string;
+	database: string;
+	user: string;
+	password: string;
+}
+
+export function getPgpassPath(): string {
+	if (process.env.PGPASSFILE) {
+		return process.env.PGPASSFILE;
+	}
+	if (process.platform === 'win32' && process.env.APPDATA) {
+		return path.join(process.env.APPDATA, 'postgresql', 'pgpass.conf');
+	}
+	return path.join(os.homedir(), '.pgpass');
+}
+
+/**
+ * Split a pgpass line on unescaped colons, unescaping "\:" and "\\".
+ */
+function splitPgpassLine(line: string): string[] {
+	const fields: string[] = [];
+	let current = '';
+	for (let i = 0; i < line.length; i++) {
+		const ch = line[i];
+		if (ch === '\\' && i + 1 < line.length) {
+			current += line[++i];
+		} else if (ch === ':') {
+			fields.push(current);
+			current = '';
+		} else {
+			current += ch;
+		}
+	}
+	fields.push(current);
+	return fields;
+}
+
+function readPgpassFile(filePath: string): PgpassEntry[] {
+	let stat: fs.Stats;
+	try {
+		stat = fs.statSync(filePath);
+	} catch {
+		return [];
+	}
+
+	// Like libpq, ignore the file unless it is a regular file private to the user
+	if (!stat.isFile()) {
+		return [];
+	}
+	if (process.platform !== 'win32' && (stat.mode & 0o077) !== 0) {
+		return [];
+	}
+
+	const entries: PgpassEntry[] = [];
+	for (const line of fs.readFileSync(filePath, 'utf8').split(/\r?\n/)) {
+		if (!line || line.startsWith('#')) continue;
+		const fields = splitPgpassLine(line);
+		if (fields.length < 5) continue;
+		const [host, port, database, user, ...rest] = fields;
+		// An unescaped colon in the password is kept as part of it
+		entries.push({ host, port, database, user, password: rest.join(':') });
+	}
+	return entries;
+}
+
+function fieldMatches(pattern: string, value: string): boolean {
+	return pattern === '*' || pattern === value;
+}
+
+/**
+ * Find the password for a connection in the pgpass file, using libpq's rules:
+ * the first line whose host, port, database and user all match wins, and
+ * "*" matches anything. Unix-socket connections also match "localhost".
+ */
+export function lookupPgpass(config: ConnectionConfig, user: string): string | undefined {
+	const entries = readPgpassFile(getPgpassPath());
+	const isSocket = config.host.startsWith('/');
+	const port = String(config.port);
+
+	const entry = entries.find(
+		(e) =>
+			(fieldMatches(e.host, config.host) || (isSocket && e.host === 'localhost')) &&
+			fieldMatches(e.port, port) &&
+			fieldMatches(e.database, config.database) &&
+			fieldMatches(e.user, user)
+	);
+	return entry?.password;
+}
+
+/**
+ * Resolve a password without prompting: the connection string or service,
+ * then PGPASSWORD, then the pgpass file. MySQL connections use MYSQL_PWD instead.
+ */
+export function resolvePassword(config: ConnectionConfig, user: string): string | undefined {
+	if (config.driver === 'mysql') {
+		return config.password ?? process.env.MYSQL_PWD;
+	}
+	return config.password ?? process.env.PGPASSWORD ?? lookupPgpass(config, user);
+}
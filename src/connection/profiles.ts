@@ -0,0 +1,228 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { ConnectionConfig, ConnectionProfile, DriverName, SshConfig, SslConfig } from './types.js';
+import { parseSslMode } from './ssl.js';
+import { parseSshDestination } from './sshTunnel.js';
+
+interface ProfilesFile {
+	connections: Record<string, ConnectionConfig>;
+}
+
+const PROFILE_NAME_PATTERN = /^[\w.-]+$/;
+const DRIVERS: DriverName[] = ['postgres', 'mysql', 'sqlite'];
+
+export function getConfigDir(): string {
+	const base = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+	return path.join(base, 'qq');
+}
+
+export function getProfilesPath(): string {
+	return process.env.QQ_CONNECTIONS_FILE || path.join(getConfigDir(), 'connections.json');
+}
+
+function validateProfile(name: string, value: unknown): ConnectionProfile {
+	if (typeof value !== 'object' || value === null) {
+		throw new Error(`Connection "${name}" must be an object`);
+	}
+	const entry = value as Record<string, unknown>;
+	const driver = entry.driver === undefined ? 'postgres' : entry.driver;
+	if (!DRIVERS.includes(driver as DriverName)) {
+		throw new Error(`Connection "${name}" has an unknown "driver". Expected one of: ${DRIVERS.join(', ')}`);
+	}
+	if (driver === 'sqlite') {
+		if (typeof entry.database !== 'string' || !entry.database) {
+			throw new Error(`Connection "${name}" is missing "database" (the SQLite file path)`);
+		}
+		return {
+			name,
+			driver: 'sqlite',
+			host: '',
+			port: 0,
+			database: entry.database,
+			label: typeof entry.label === 'string' ? entry.label : undefined,
+			color: typeof entry.color === 'string' ? entry.color : undefined,
+		};
+	}
+
+	if (typeof entry.host !== 'string' || !entry.host) {
+		throw new Error(`Connection "${name}" is missing "host"`);
+	}
+	if (typeof entry.database !== 'string' || (!entry.database && driver !== 'mysql')) {
+		throw new Error(`Connection "${name}" is missing "database"`);
+	}
+	const port = entry.port === undefined ? (driver === 'mysql' ? 3306 : 5432) : entry.port;
+	if (typeof port !== 'number' || !Number.isInteger(port)) {
+		throw new Error(`Connection "${name}" has an invalid "port"`);
+	}
+
+	return {
+		name,
+		driver: driver === 'mysql' ? 'mysql' : undefined,
+		host: entry.host,
+		port,
+		database: entry.database,
+		user: typeof entry.user === 'string' ? entry.user : undefined,
+		schema: typeof entry.schema === 'string' ? entry.schema : undefined,
+		schemas: parseProfileSchemas(name, entry.schemas),
+		ssl: parseProfileSsl(name, entry.ssl),
+		ssh: parseProfileSsh(name, entry.ssh),
+		applicationName: typeof entry.applicationName === 'string' ? entry.applicationName : undefined,
+		connectTimeout: typeof entry.connectTimeout === 'number' ? entry.connectTimeout : undefined,
+		label: typeof entry.label === 'string' ? entry.label : undefined,
+		color: typeof entry.color === 'string' ? entry.color : undefined,
+	};
+}
+
+// "app, audit" -> ["app", "audit"]
+export function parseSchemaList(value: string): string[] {
+	return value
+		.split(',')
+		.map((schema) => schema.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Extra schemas may be written as a list or a comma-separated string.
+ */
+function parseProfileSchemas(name: string, value: unknown): string[] | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	if (typeof value === 'string') {
+		return parseSchemaList(value);
+	}
+	if (!Array.isArray(value) || !value.every((schema) => typeof schema === 'string')) {
+		throw new Error(`Connection "${name}" has an invalid "schemas" setting`);
+	}
+	return value;
+}
+
+/**
+ * SSL settings may be written as `true` (sslmode=require), a mode string,
+ * or an object with mode and certificate paths.
+ */
+function parseProfileSsl(name: string, value: unknown): Partial<SslConfig> | undefined {
+	if (value === undefined || value === false) {
+		return undefined;
+	}
+	if (value === true) {
+		return { mode: 'require' };
+	}
+	if (typeof value === 'string') {
+		return { mode: parseSslMode(value) };
+	}
+	if (typeof value !== 'object' || value === null) {
+		throw new Error(`Connection "${name}" has an invalid "ssl" setting`);
+	}
+
+	const ssl: Partial<SslConfig> = {};
+	const entry = value as Record<string, unknown>;
+	if (typeof entry.mode === 'string') ssl.mode = parseSslMode(entry.mode);
+	if (typeof entry.rootCert === 'string') ssl.rootCert = entry.rootCert;
+	if (typeof entry.cert === 'string') ssl.cert = entry.cert;
+	if (typeof entry.key === 'string') ssl.key = entry.key;
+	if (typeof entry.servername === 'string') ssl.servername = entry.servername;
+	return ssl;
+}
+
+/**
+ * SSH settings may be written as a "user@host:port" string or an object
+ * with host, port, user and identityFile.
+ */
+function parseProfileSsh(name: string, value: unknown): SshConfig | undefined {
+	if (value === undefined) {
+		return undefined;
+	}
+	if (typeof value === 'string') {
+		return parseSshDestination(value);
+	}
+	const entry = value as Record<string, unknown>;
+	if (typeof value !== 'object' || value === null || typeof entry.host !== 'string') {
+		throw new Error(`Connection "${name}" has an invalid "ssh" setting`);
+	}
+
+	const ssh: SshConfig = { host: entry.host };
+	if (typeof entry.port === 'number') ssh.port = entry.port;
+	if (typeof entry.user === 'string') ssh.user = entry.user;
+	if (typeof entry.identityFile === 'string') ssh.identityFile = entry.identityFile;
+	return ssh;
+}
+
+/**
+ * Load all profiles from the connections file.
+ * A missing file is treated as an empty set of profiles.
+ */
+export function loadProfiles(): ConnectionProfile[] {
+	const filePath = getProfilesPath();
+	let raw: string;
+	try {
+		raw = fs.readFileSync(filePath, 'utf8');
+	} catch (err) {
+		if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+			return [];
+		}
+		throw err;
+	}
+
+	let data: Partial<ProfilesFile>;
+	try {
+		data = JSON.parse(raw);
+	} catch (err) {
+		throw new Error(`Invalid JSON in ${filePath}: ${(err as Error).message}`);
+	}
+
+	const connections = data.connections ?? {};
+	return Object.entries(connections).map(([name, value]) => validateProfile(name, value));
+}
+
+function saveProfiles(profiles: ConnectionProfile[]): void {
+	const connections: Record<string, ConnectionConfig> = {};
+	for (const { name, ...config } of profiles) {
+		connections[name] = config;
+	}
+
+	const filePath = getProfilesPath();
+	fs.mkdirSync(path.dirname(filePath), { recursive: true });
+	fs.writeFileSync(filePath, JSON.stringify({ connections }, null, '\t') + '\n', { mode: 0o600 });
+}
+
+export function findProfile(name: string): ConnectionProfile {
+	const profile = loadProfiles().find((p) => p.name === name);
+	if (!profile) {
+		throw new Error(`Unknown connection profile "${name}". Run "qq connections list" to see saved profiles.`);
+	}
+	return profile;
+}
+
+/**
+ * Add a profile, replacing any existing profile with the same name.
+ * Returns true if an existing profile was replaced.
+ */
+export function addProfile(profile: ConnectionProfile): boolean {
+	if (!PROFILE_NAME_PATTERN.test(profile.name)) {
+		throw new Error(`Invalid profile name "${profile.name}". Use letters, digits, "_", "-" and "."`);
+	}
+	const profiles = loadProfiles();
+	const index = profiles.findIndex((p) => p.name === profile.name);
+	if (index === -1) {
+		profiles.push(profile);
+	} else {
+		profiles[index] = profile;
+	}
+	saveProfiles(profiles);
+	return index !== -1;
+}
+
+/**
+ * Remove a profile by name. Returns false if no such profile exists.
+ */
+export function removeProfile(name: string): boolean {
+	const profiles = loadProfiles();
+	const remaining = profiles.filter((p) => p.name !== name);
+	if (remaining.length === profiles.length) {
+		return false;
+	}
+	saveProfiles(remaining);
+	return true;
+}
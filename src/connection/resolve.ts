@@ -0,0 +1,24 @@
+import type { ConnectionConfig } from './types.js';
+import { parseConnectionString } from './connectionString.js';
+import { findProfile } from './profiles.js';
+
+/**
+ * Resolve the connection target given on the command line.
+ * Accepts any connection string, "@name" shorthand for a saved profile, or an explicit --profile name.
+ * With no target at all, PGSERVICE names the service to connect to.
+ */
+export function resolveConnection(target: string | null, profileName: string | null): ConnectionConfig {
+	if (profileName) {
+		return findProfile(profileName);
+	}
+	if (!target && process.env.PGSERVICE) {
+		return parseConnectionString(`service='${process.env.PGSERVICE.replace(/['\\]/g, '\\$&')}'`);
+	}
+	if (!target) {
+		throw new Error('A database URL or connection profile is required');
+	}
+	if (target.startsWith('@')) {
+		return findProfile(target.slice(1));
+	}
+	return parseConnectionString(target);
+}
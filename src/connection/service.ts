@@ -0,0 +1,72 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+/**
+ * Service files to search, in libpq's order: the per-user file first,
+ * then the system-wide pg_service.conf.
+ */
+function getServiceFilePaths(): string[] {
+	const paths = [process.env.PGSERVICEFILE || path.join(os.homedir(), '.pg_service.conf')];
+	if (process.env.PGSYSCONFDIR) {
+		paths.push(path.join(process.env.PGSYSCONFDIR, 'pg_service.conf'));
+	} else {
+		paths.push('/etc/postgresql-common/pg_service.conf', '/etc/pg_service.conf');
+	}
+	return paths;
+}
+
+/**
+ * Read the key/value pairs of one [service] section from an INI-style
+ * service file. Returns null if the file or section does not exist.
+ */
+function readServiceSection(filePath: string, service: string): [string, string][] | null {
+	let content: string;
+	try {
+		content = fs.readFileSync(filePath, 'utf8');
+	} catch {
+		return null;
+	}
+
+	let inSection = false;
+	let found = false;
+	const params: [string, string][] = [];
+
+	const lines = content.split(/\r?\n/);
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i].trim();
+		if (!line || line.startsWith('#')) continue;
+
+		const sectionMatch = line.match(/^\[(.*)\]$/);
+		if (sectionMatch) {
+			if (inSection) break;
+			inSection = sectionMatch[1].trim() === service;
+			found = found || inSection;
+			continue;
+		}
+
+		if (!inSection) continue;
+
+		const eqIndex = line.indexOf('=');
+		if (eqIndex === -1) {
+			throw new Error(`Syntax error in service file "${filePath}", line ${i + 1}: expected key=value`);
+		}
+		params.push([line.slice(0, eqIndex).trim(), line.slice(eqIndex + 1).trim()]);
+	}
+
+	return found ? params : null;
+}
+
+/**
+ * Look up the connection parameters of a named service in pg_service.conf.
+ * Parameter names are libpq keywords (host, port, dbname, user, sslmode, ...).
+ */
+export function loadServiceParameters(service: string): [string, string][] {
+	for (const filePath of getServiceFilePaths()) {
+		const params = readServiceSection(filePath, service);
+		if (params) {
+			return params;
+		}
+	}
+	throw new Error(`Definition of service "${service}" not found in ${getServiceFilePaths().join(' or ')}`);
+}
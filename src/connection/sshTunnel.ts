@@ -0,0 +1,203 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { Client as SshClient, type ConnectConfig } from 'ssh2';
+import type { SshConfig } from './types.js';
+
+const DEFAULT_SSH_PORT = 22;
+const DEFAULT_IDENTITY_FILES = ['id_ed25519', 'id_ecdsa', 'id_rsa'];
+
+export interface SshTunnel {
+	localHost: string;
+	localPort: number;
+	close: () => Promise<void>;
+}
+
+/**
+ * Parse an ssh destination of the form [user@]host[:port].
+ * IPv6 bastion addresses must be bracketed: user@[::1]:2222
+ */
+export function parseSshDestination(value: string): SshConfig {
+	const match = value.match(/^(?:([^@]+)@)?(\[[^\]]+\]|[^:@]+)(?::(\d+))?$/);
+	if (!match) {
+		throw new Error(`Invalid SSH destination "${value}". Expected user@host[:port]`);
+	}
+	const [, user, rawHost, port] = match;
+	const config: SshConfig = { host: rawHost.replace(/^\[|\]$/g, '') };
+	if (user) config.user = user;
+	if (port) {
+		const portNumber = parseInt(port, 10);
+		if (portNumber < 1 || portNumber > 65535) {
+			throw new Error(`Invalid SSH port ${portNumber}: must be between 1 and 65535`);
+		}
+		config.port = portNumber;
+	}
+	return config;
+}
+
+export function formatSshDestination(ssh: SshConfig): string {
+	const host = ssh.host.includes(':') ? `[${ssh.host}]` : ssh.host;
+	const port = ssh.port && ssh.port !== DEFAULT_SSH_PORT ? `:${ssh.port}` : '';
+	return `${ssh.user ? `${ssh.user}@` : ''}${host}${port}`;
+}
+
+function expandHome(filePath: string): string {
+	return filePath.startsWith('~/') ? path.join(os.homedir(), filePath.slice(2)) : filePath;
+}
+
+function findDefaultIdentity(): string | undefined {
+	const sshDir = path.join(os.homedir(), '.ssh');
+	return DEFAULT_IDENTITY_FILES.map((name) => path.join(sshDir, name)).find((file) => fs.existsSync(file));
+}
+
+/**
+ * Match a host against an OpenSSH known_hosts host pattern,
+ * including hashed (|1|salt|hash) entries and * / ? wildcards.
+ */
+function hostPatternMatches(pattern: string, host: string): boolean {
+	if (pattern.startsWith('|1|')) {
+		const [, , salt, hash] = pattern.split('|');
+		const digest = crypto.createHmac('sha1', Buffer.from(salt, 'base64')).update(host).digest('base64');
+		return digest === hash;
+	}
+	const regex = new RegExp('^' + pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.') + '$', 'i');
+	return regex.test(host);
+}
+
+/**
+ * Look up the bastion's host keys in ~/.ssh/known_hosts.
+ * Returns the known keys for the host, or an empty list if it is not listed.
+ */
+function findKnownHostKeys(host: string, port: number): Buffer[] {
+	let content: string;
+	try {
+		content = fs.readFileSync(path.join(os.homedir(), '.ssh', 'known_hosts'), 'utf8');
+	} catch {
+		return [];
+	}
+
+	const hostEntry = port === DEFAULT_SSH_PORT ? host : `[${host}]:${port}`;
+	const keys: Buffer[] = [];
+
+	for (const line of content.split(/\r?\n/)) {
+		const trimmed = line.trim();
+		if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('@')) continue;
+		const [patterns, , key] = trimmed.split(/\s+/);
+		if (!patterns || !key) continue;
+
+		const patternList = patterns.split(',');
+		const negated = patternList.some((p) => p.startsWith('!') && hostPatternMatches(p.slice(1), hostEntry));
+		if (!negated && patternList.some((p) => !p.startsWith('!') && hostPatternMatches(p, hostEntry))) {
+			keys.push(Buffer.from(key, 'base64'));
+		}
+	}
+	return keys;
+}
+
+/**
+ * Open an SSH connection to the bastion and forward a local port to
+ * remoteHost:remotePort as seen from the bastion.
+ *
+ * Authenticates with ssh-agent (SSH_AUTH_SOCK) and/or an identity file; the
+ * default ~/.ssh/id_* keys are tried when no identity file is configured.
+ * Host keys are checked against ~/.ssh/known_hosts: a changed key is rejected,
+ * while hosts not yet listed are accepted.
+ */
+export function openSshTunnel(ssh: SshConfig, remoteHost: string, remotePort: number): Promise<SshTunnel> {
+	const port = ssh.port ?? DEFAULT_SSH_PORT;
+	const destination = formatSshDestination(ssh);
+
+	const identityFile = ssh.identityFile ? expandHome(ssh.identityFile) : findDefaultIdentity();
+	let privateKey: Buffer | undefined;
+	if (identityFile) {
+		try {
+			privateKey = fs.readFileSync(identityFile);
+		} catch (err) {
+			if (ssh.identityFile) {
+				return Promise.reject(new Error(`Could not read SSH identity file "${ssh.identityFile}": ${(err as Error).message}`));
+			}
+		}
+	}
+
+	const agent = process.env.SSH_AUTH_SOCK;
+	if (!privateKey && !agent) {
+		return Promise.reject(new Error('No SSH credentials available: start ssh-agent or pass --ssh-identity'));
+	}
+
+	let hostKeyMismatch = false;
+	const knownKeys = findKnownHostKeys(ssh.host, port);
+
+	const connectConfig: ConnectConfig = {
+		host: ssh.host,
+		port,
+		username: ssh.user ?? os.userInfo().username,
+		agent,
+		privateKey,
+		passphrase: process.env.QQ_SSH_PASSPHRASE,
+		readyTimeout: 20000,
+		keepaliveInterval: 30000,
+		hostVerifier: (key: Buffer) => {
+			if (knownKeys.length === 0 || knownKeys.some((known) => known.equals(key))) {
+				return true;
+			}
+			hostKeyMismatch = true;
+			return false;
+		},
+	};
+
+	return new Promise((resolve, reject) => {
+		const conn = new SshClient();
+		let settled = false;
+
+		const fail = (err: Error) => {
+			if (settled) return;
+			settled = true;
+			conn.end();
+			const reason = hostKeyMismatch
+				? `host key for ${ssh.host} does not match ~/.ssh/known_hosts`
+				: err.message;
+			reject(new Error(`SSH tunnel via ${destination} failed: ${reason}`));
+		};
+
+		conn.on('error', fail);
+
+		conn.on('ready', () => {
+			const sockets = new Set<net.Socket>();
+			const server = net.createServer((socket) => {
+				sockets.add(socket);
+				socket.on('close', () => sockets.delete(socket));
+				conn.forwardOut(socket.remoteAddress ?? '127.0.0.1', socket.remotePort ?? 0, remoteHost, remotePort, (err, stream) => {
+					if (err) {
+						socket.destroy(err);
+						return;
+					}
+					socket.pipe(stream).pipe(socket);
+					stream.on('error', () => socket.destroy());
+					socket.on('error', () => stream.destroy());
+				});
+			});
+
+			server.on('error', fail);
+			server.listen(0, '127.0.0.1', () => {
+				settled = true;
+				const address = server.address() as net.AddressInfo;
+				resolve({
+					localHost: '127.0.0.1',
+					localPort: address.port,
+					close: () =>
+						new Promise<void>((done) => {
+							server.close(() => done());
+							for (const socket of sockets) {
+								socket.destroy();
+							}
+							conn.end();
+						}),
+				});
+			});
+		});
+
+		conn.connect(connectConfig);
+	});
+}
@@ -0,0 +1,125 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import tls from 'node:tls';
+import type { SslConfig, SslMode } from './types.js';
+
+export const SSL_MODES: SslMode[] = ['disable', 'allow', 'prefer', 'require', 'verify-ca', 'verify-full'];
+
+// Same default as libpq: try TLS first, fall back to an unencrypted connection
+const DEFAULT_SSL_MODE: SslMode = 'prefer';
+
+export function parseSslMode(value: string): SslMode {
+	if (!SSL_MODES.includes(value as SslMode)) {
+		throw new Error(`Invalid sslmode "${value}". Expected one of: ${SSL_MODES.join(', ')}`);
+	}
+	return value as SslMode;
+}
+
+/**
+ * SSL settings from the standard PGSSL* environment variables.
+ */
+function getSslEnvironment(): Partial<SslConfig> {
+	const env: Partial<SslConfig> = {};
+	if (process.env.PGSSLMODE) env.mode = parseSslMode(process.env.PGSSLMODE);
+	if (process.env.PGSSLROOTCERT) env.rootCert = process.env.PGSSLROOTCERT;
+	if (process.env.PGSSLCERT) env.cert = process.env.PGSSLCERT;
+	if (process.env.PGSSLKEY) env.key = process.env.PGSSLKEY;
+	return env;
+}
+
+/**
+ * Fill in SSL settings the connection does not specify from the PGSSL*
+ * environment variables, then the default mode.
+ */
+export function resolveSslConfig(fromConfig: Partial<SslConfig> | undefined): SslConfig {
+	const merged = { ...getSslEnvironment(), ...stripUndefined(fromConfig ?? {}) };
+	return { ...merged, mode: merged.mode ?? DEFAULT_SSL_MODE };
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+	return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Order in which to try encrypted and unencrypted connections for a mode.
+ * "allow" and "prefer" fall back to the other option when the first attempt fails.
+ */
+export function getSslAttempts(mode: SslMode): boolean[] {
+	switch (mode) {
+		case 'disable':
+			return [false];
+		case 'allow':
+			return [false, true];
+		case 'prefer':
+			return [true, false];
+		default:
+			return [true];
+	}
+}
+
+function readFileOption(filePath: string, what: string): string {
+	try {
+		return fs.readFileSync(expandHome(filePath), 'utf8');
+	} catch (err) {
+		throw new Error(`Could not read SSL ${what} "${filePath}": ${(err as Error).message}`);
+	}
+}
+
+function expandHome(filePath: string): string {
+	return filePath.startsWith('~/') ? path.join(os.homedir(), filePath.slice(2)) : filePath;
+}
+
+/**
+ * libpq's default certificate locations, used when none are configured.
+ */
+function defaultCertPath(fileName: string): string | undefined {
+	const candidate = path.join(os.homedir(), '.postgresql', fileName);
+	return fs.existsSync(candidate) ? candidate : undefined;
+}
+
+/**
+ * Build the TLS options passed to pg for an encrypted connection attempt.
+ * `host` is the server's host name, used for certificate verification in verify-full.
+ * Certificates not configured are looked for in ~/.postgresql unless `libpqDefaults`
+ * is false, as for MySQL, whose client has no default locations.
+ */
+export function buildTlsOptions(ssl: SslConfig, host: string, libpqDefaults = true): tls.ConnectionOptions {
+	const options: tls.ConnectionOptions = {};
+	const fallback = (fileName: string) => (libpqDefaults ? defaultCertPath(fileName) : undefined);
+
+	const rootCert = ssl.rootCert ?? (ssl.mode.startsWith('verify') ? fallback('root.crt') : undefined);
+	if (rootCert) {
+		options.ca = readFileOption(rootCert, 'root certificate');
+	}
+
+	const cert = ssl.cert ?? fallback('postgresql.crt');
+	const key = ssl.key ?? fallback('postgresql.key');
+	if (cert) {
+		options.cert = readFileOption(cert, 'client certificate');
+		if (!key) {
+			throw new Error('An SSL client certificate was given without a key (set sslkey)');
+		}
+		options.key = readFileOption(key, 'client key');
+	}
+
+	if (ssl.servername) {
+		options.servername = ssl.servername;
+	}
+
+	// Like libpq, "require" with an explicit root certificate verifies the CA
+	const verifyCa = ssl.mode === 'verify-ca' || (ssl.mode === 'require' && ssl.rootCert !== undefined);
+
+	if (ssl.mode === 'verify-full') {
+		const expectedName = ssl.servername ?? host;
+		options.rejectUnauthorized = true;
+		options.checkServerIdentity = (_hostname, peerCert) => tls.checkServerIdentity(expectedName, peerCert);
+	} else if (verifyCa) {
+		options.rejectUnauthorized = true;
+		options.checkServerIdentity = () => undefined;
+	} else {
+		options.rejectUnauthorized = false;
+	}
+
+	return options;
+}
@@ -0,0 +1,62 @@
+export type DriverName = 'postgres' | 'mysql' | 'sqlite';
+
+export type SslMode = 'disable' | 'allow' | 'prefer' | 'require' | 'verify-ca' | 'verify-full';
+
+export interface SslConfig {
+	mode: SslMode;
+	rootCert?: string; // Path to CA bundle (sslrootcert)
+	cert?: string; // Path to client certificate (sslcert)
+	key?: string; // Path to client key (sslkey)
+	servername?: string; // SNI / certificate host name override
+}
+
+export interface SshConfig {
+	host: string; // Bastion host
+	port?: number;
+	user?: string;
+	identityFile?: string;
+}
+
+export interface ConnectionConfig {
+	driver?: DriverName; // Defaults to postgres
+	host: string; // Empty for file-based databases
+	port: number;
+	database: string; // File path for SQLite; may be empty for MySQL
+	user?: string;
+	password?: string; // Only from connection strings; never stored in profiles
+	schema?: string; // Default schema, applied as search_path on connect
+	schemas?: string[]; // More schemas to load for autocomplete, besides those on the search_path
+	ssl?: Partial<SslConfig>; // Unset fields fall back to PGSSL* variables and sslmode=prefer
+	applicationName?: string;
+	connectTimeout?: number; // Seconds
+	ssh?: SshConfig; // Reach the database through an SSH tunnel
+	label?: string; // Shown in the header, e.g. "PROD"
+	color?: string; // Ink color name for the label
+}
+
+/**
+ * Format host and port for display, bracketing IPv6 addresses.
+ */
+export function formatAddress(config: ConnectionConfig): string {
+	const host = config.host.includes(':') ? `[${config.host}]` : config.host;
+	return `${host}:${config.port}`;
+}
+
+/**
+ * Format the database a connection points at: host:port/database,
+ * or just the file path for SQLite.
+ */
+export function formatTarget(config: ConnectionConfig): string {
+	if (config.driver === 'sqlite') {
+		return config.database;
+	}
+	return `${formatAddress(config)}/${config.database}`;
+}
+
+/**
+ * A named connection stored in the connections file.
+ * Same shape as ConnectionConfig; the name is the key it is stored under.
+ */
+export interface ConnectionProfile extends ConnectionConfig {
+	name: string;
+}
@@ -0,0 +1,14 @@
+import type { CatalogPattern } from './types.js';
+
+/**
+ * Turn the :name and :schema markers of a catalog query into ? placeholders.
+ * Returns the query and the pattern values in placeholder order.
+ */
+export function bindCatalogPattern(sql: string, pattern: CatalogPattern): [string, (string | null)[]] {
+	const params: (string | null)[] = [];
+	const text = sql.replace(/:(name|schema)\b/g, (_, part: 'name' | 'schema') => {
+		params.push(pattern[part]);
+		return '?';
+	});
+	return [text, params];
+}
@@ -0,0 +1,35 @@
+export type ConnectErrorKind = 'auth' | 'database' | 'unreachable' | 'timeout' | 'other';
+
+const UNREACHABLE_CODES = new Set(['ENOTFOUND', 'EAI_AGAIN', 'ECONNREFUSED', 'EHOSTUNREACH', 'ENETUNREACH', 'ECONNRESET']);
+
+/**
+ * Classify why a connection attempt failed, so the UI can offer the right way out:
+ * re-enter credentials, pick another database, or retry / fix the host.
+ */
+export function classifyConnectError(err: unknown): ConnectErrorKind {
+	const { code, message = '' } = err as { code?: string; message?: string };
+
+	switch (code) {
+		case '28P01': // Postgres invalid_password
+		case '28000': // Postgres invalid_authorization_specification (e.g. no pg_hba.conf entry)
+		case 'ER_ACCESS_DENIED_ERROR':
+			return 'auth';
+		case '3D000': // Postgres invalid_catalog_name
+		case 'ER_BAD_DB_ERROR':
+			return 'database';
+		case 'ETIMEDOUT':
+			return 'timeout';
+	}
+	if (code && UNREACHABLE_CODES.has(code)) {
+		return 'unreachable';
+	}
+
+	// pg reports these without a code
+	if (/client password must be a string/i.test(message)) {
+		return 'auth';
+	}
+	if (/timeout|timed out/i.test(message)) {
+		return 'timeout';
+	}
+	return 'other';
+}
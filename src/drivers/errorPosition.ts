@@ -0,0 +1,24 @@
+/**
+ * Find an identifier or keyword named in an error message within the query.
+ * Returns the 1-indexed position of the first whole-word, case-insensitive match.
+ */
+export function findTokenPosition(sql: string, token: string, from = 0): number | undefined {
+	const escaped = token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	const regex = new RegExp(`(?<!\\w)${escaped}(?!\\w)`, 'gi');
+	regex.lastIndex = from;
+	const match = regex.exec(sql);
+	return match ? match.index + 1 : undefined;
+}
+
+/**
+ * Offset of the first character of a 1-indexed line.
+ */
+export function lineOffset(sql: string, line: number): number {
+	let offset = 0;
+	for (let i = 1; i < line; i++) {
+		const newline = sql.indexOf('\n', offset);
+		if (newline === -1) break;
+		offset = newline + 1;
+	}
+	return offset;
+}
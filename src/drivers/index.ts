@@ -0,0 +1,40 @@
+import type { ConnectionConfig } from '../connection/index.js';
+import type { Credentials, DatabaseDriver } from './types.js';
+import { connectMysql } from './mysql.js';
+import { connectPostgres } from './postgres.js';
+import { connectSqlite } from './sqlite.js';
+
+export type {
+	CatalogKind,
+	CatalogPattern,
+	Credentials,
+	DatabaseDriver,
+	DriverError,
+	DriverResult,
+	FieldInfo,
+	TableDescription,
+} from './types.js';
+export { classifyConnectError, type ConnectErrorKind } from './connectError.js';
+
+/**
+ * Whether connecting needs a user name and password.
+ * File-based databases are opened without credentials.
+ */
+export function requiresCredentials(config: ConnectionConfig): boolean {
+	return config.driver !== 'sqlite';
+}
+
+/**
+ * Connect to the database described by the config with the matching driver.
+ * Credentials are ignored by drivers that do not need them.
+ */
+export function connectDriver(config: ConnectionConfig, credentials: Credentials): Promise<DatabaseDriver> {
+	switch (config.driver ?? 'postgres') {
+		case 'mysql':
+			return connectMysql(config, credentials);
+		case 'sqlite':
+			return connectSqlite(config);
+		case 'postgres':
+			return connectPostgres(config, credentials);
+	}
+}
@@ -0,0 +1,559 @@
+import mysql from 'mysql2/promise';
+import {
+	buildTlsOptions,
+	getSslAttempts,
+	openSshTunnel,
+	type ConnectionConfig,
+	type SshTunnel,
+	type SslConfig,
+} from '../connection/index.js';
+import type { RelationKind, RoutineInfo, SchemaObjects, TableInfo } from '../autocomplete/types.js';
+import type { CatalogKind, Credentials, DatabaseDriver, DriverError, DriverResult, TableDescription } from './types.js';
+import { bindCatalogPattern } from './catalogPattern.js';
+import { findTokenPosition, lineOffset } from './errorPosition.js';
+import { createSessionSettings } from './session.js';
+
+// Protocol column type codes -> type names
+const TYPE_NAMES: Record<number, string> = {
+	0x00: 'decimal',
+	0x01: 'tinyint',
+	0x02: 'smallint',
+	0x03: 'int',
+	0x04: 'float',
+	0x05: 'double',
+	0x06: 'null',
+	0x07: 'timestamp',
+	0x08: 'bigint',
+	0x09: 'mediumint',
+	0x0a: 'date',
+	0x0b: 'time',
+	0x0c: 'datetime',
+	0x0d: 'year',
+	0x0e: 'date',
+	0x0f: 'varchar',
+	0x10: 'bit',
+	0xf5: 'json',
+	0xf6: 'decimal',
+	0xf7: 'enum',
+	0xf8: 'set',
+	0xf9: 'tinyblob',
+	0xfa: 'mediumblob',
+	0xfb: 'longblob',
+	0xfc: 'blob',
+	0xfd: 'varchar',
+	0xfe: 'char',
+	0xff: 'geometry',
+};
+
+interface TableRow {
+	table_schema: string;
+	table_name: string;
+	table_type: string;
+}
+
+interface ColumnRow {
+	table_schema: string;
+	table_name: string;
+	column_name: string;
+	data_type: string;
+	column_type: string; // Full type, e.g. enum('new','paid')
+	collation_name: string | null;
+	is_nullable: string;
+}
+
+interface RoutineRow {
+	routine_schema: string;
+	routine_name: string;
+	routine_type: 'FUNCTION' | 'PROCEDURE';
+	return_type: string | null;
+}
+
+interface ParameterRow {
+	routine_schema: string;
+	routine_name: string;
+	parameter_mode: string | null; // IN, OUT or INOUT for procedures; null for functions
+	parameter_name: string;
+	parameter_type: string;
+}
+
+interface ForeignKeyRow {
+	table_schema: string;
+	table_name: string;
+	column_name: string;
+	referenced_schema: string;
+	referenced_table: string;
+	referenced_column: string;
+}
+
+function toDriverResult(result: unknown, fields: mysql.FieldPacket[] | undefined): DriverResult {
+	if (!Array.isArray(result)) {
+		// INSERT, UPDATE, DDL, ...
+		return { fields: [], rows: [], rowCount: (result as mysql.ResultSetHeader).affectedRows };
+	}
+	return {
+		fields: (fields ?? []).map((field) => ({
+			name: field.name,
+			dataType: TYPE_NAMES[field.columnType ?? field.type ?? -1] ?? `type:${field.columnType ?? field.type}`,
+		})),
+		rows: result as Record<string, unknown>[],
+		rowCount: result.length,
+	};
+}
+
+/**
+ * Find where in the query a MySQL error points. Syntax errors quote the rest of the
+ * query from the offending token ("near 'FORM users' at line 1"); unknown columns
+ * and tables are named in quotes.
+ */
+function findErrorPosition(message: string, sql: string): number | undefined {
+	const near = message.match(/near '([\s\S]*)' at line (\d+)$/);
+	if (near) {
+		const [, snippet, line] = near;
+		if (!snippet) {
+			// Nothing left to quote: the query ended too early
+			return sql.trimEnd().length;
+		}
+		const index = sql.indexOf(snippet, lineOffset(sql, parseInt(line, 10)));
+		return index === -1 ? undefined : index + 1;
+	}
+
+	const column = message.match(/^Unknown column '([^']+)'/);
+	if (column) {
+		return findTokenPosition(sql, column[1]);
+	}
+
+	// Table 'app.userz' doesn't exist: the query may name the table with or without the database
+	const table = message.match(/^Table '(?:[^'.]+\.)?([^'.]+)' doesn't exist/);
+	if (table) {
+		return findTokenPosition(sql, table[1]);
+	}
+
+	return undefined;
+}
+
+// MariaDB lists sequences in information_schema.tables too
+const RELATION_KINDS: Record<string, RelationKind> = {
+	'BASE TABLE': 'table',
+	VIEW: 'view',
+	SEQUENCE: 'sequence',
+};
+
+/**
+ * Labels of an ENUM column type: enum('new','it''s') -> ["new", "it's"]
+ */
+function parseEnumValues(columnType: string): string[] | undefined {
+	if (!/^enum\(/i.test(columnType)) {
+		return undefined;
+	}
+	return [...columnType.matchAll(/'((?:[^']|'')*)'/g)].map((match) => match[1].replace(/''/g, "'"));
+}
+
+// MySQL schemas are databases; the current database comes first so unqualified names find its tables
+async function introspect(connection: mysql.Connection, schemas: string[]): Promise<SchemaObjects> {
+	if (schemas.length === 0) {
+		// No database selected (mysql://host/) and none requested: nothing to complete
+		return { tables: [], routines: [], types: [] };
+	}
+
+	// information_schema column names are upper case in MySQL 8, so alias them explicitly
+	const [tables] = await connection.query<(TableRow & mysql.RowDataPacket)[]>(`
+		SELECT table_schema AS table_schema, table_name AS table_name, table_type AS table_type
+		FROM information_schema.tables
+		WHERE table_schema IN (?)
+		ORDER BY table_schema <> DATABASE(), table_schema, table_name
+	`, [schemas]);
+
+	const [columns] = await connection.query<(ColumnRow & mysql.RowDataPacket)[]>(`
+		SELECT table_schema AS table_schema, table_name AS table_name, column_name AS column_name,
+		       data_type AS data_type, column_type AS column_type, collation_name AS collation_name,
+		       is_nullable AS is_nullable
+		FROM information_schema.columns
+		WHERE table_schema IN (?)
+		ORDER BY table_schema, table_name, ordinal_position
+	`, [schemas]);
+
+	// MySQL records foreign keys directly in key_column_usage, including ones into other databases
+	const [foreignKeys] = await connection.query<(ForeignKeyRow & mysql.RowDataPacket)[]>(`
+		SELECT table_schema AS table_schema, table_name AS table_name, column_name AS column_name,
+		       referenced_table_schema AS referenced_schema, referenced_table_name AS referenced_table,
+		       referenced_column_name AS referenced_column
+		FROM information_schema.key_column_usage
+		WHERE table_schema IN (?)
+		  AND referenced_table_name IS NOT NULL
+		ORDER BY table_schema, table_name, constraint_name, ordinal_position
+	`, [schemas]);
+
+	const [routines] = await connection.query<(RoutineRow & mysql.RowDataPacket)[]>(`
+		SELECT routine_schema AS routine_schema, routine_name AS routine_name, routine_type AS routine_type,
+		       CASE WHEN routine_type = 'FUNCTION' THEN dtd_identifier END AS return_type
+		FROM information_schema.routines
+		WHERE routine_schema IN (?)
+		ORDER BY routine_schema, routine_name
+	`, [schemas]);
+
+	// Position 0 is a function's return value
+	const [parameters] = await connection.query<(ParameterRow & mysql.RowDataPacket)[]>(`
+		SELECT specific_schema AS routine_schema, specific_name AS routine_name, parameter_mode AS parameter_mode,
+		       parameter_name AS parameter_name, dtd_identifier AS parameter_type
+		FROM information_schema.parameters
+		WHERE specific_schema IN (?)
+		  AND ordinal_position > 0
+		ORDER BY specific_schema, specific_name, ordinal_position
+	`, [schemas]);
+
+	const tableMap = new Map<string, TableInfo>();
+	const key = (row: { table_schema: string; table_name: string }) => `${row.table_schema}.${row.table_name}`;
+	for (const row of tables) {
+		tableMap.set(key(row), {
+			name: row.table_name,
+			schema: row.table_schema,
+			kind: RELATION_KINDS[row.table_type] ?? 'table',
+			columns: [],
+			foreignKeys: [],
+		});
+	}
+	for (const row of columns) {
+		const enumValues = parseEnumValues(row.column_type);
+		tableMap.get(key(row))?.columns.push({
+			name: row.column_name,
+			dataType: row.data_type,
+			isNullable: row.is_nullable === 'YES',
+			enumValues,
+			enumCollation: enumValues ? (row.collation_name ?? undefined) : undefined,
+		});
+	}
+	for (const row of foreignKeys) {
+		tableMap.get(key(row))?.foreignKeys.push({
+			column: row.column_name,
+			referencedSchema: row.referenced_schema,
+			referencedTable: row.referenced_table,
+			referencedColumn: row.referenced_column,
+		});
+	}
+
+	const argumentsByRoutine = new Map<string, string[]>();
+	for (const row of parameters) {
+		const routineKey = `${row.routine_schema}.${row.routine_name}`;
+		const argument = [row.parameter_mode, row.parameter_name, row.parameter_type].filter(Boolean).join(' ');
+		argumentsByRoutine.set(routineKey, [...(argumentsByRoutine.get(routineKey) ?? []), argument]);
+	}
+
+	return {
+		tables: Array.from(tableMap.values()),
+		routines: routines.map(
+			(row): RoutineInfo => ({
+				name: row.routine_name,
+				schema: row.routine_schema,
+				kind: row.routine_type === 'PROCEDURE' ? 'procedure' : 'function',
+				arguments: (argumentsByRoutine.get(`${row.routine_schema}.${row.routine_name}`) ?? []).join(', '),
+				returnType: row.return_type,
+			})
+		),
+		// ENUM is a column type in MySQL, not a named type; its labels are on the columns
+		types: [],
+	};
+}
+
+// Catalog queries behind \d, \dt, ...; :name and :schema are the name and schema patterns or null.
+// Without a schema pattern only the current database is listed
+const CATALOG_QUERIES: Record<CatalogKind, string> = {
+	relations: `
+		SELECT table_schema AS \`Schema\`, table_name AS \`Name\`,
+		       CASE table_type WHEN 'BASE TABLE' THEN 'table' ELSE LOWER(table_type) END AS \`Type\`
+		FROM information_schema.tables
+		WHERE ((:schema IS NULL AND table_schema = DATABASE()) OR table_schema LIKE :schema)
+		  AND (:name IS NULL OR table_name LIKE :name)
+		ORDER BY 2`,
+	tables: `
+		SELECT table_schema AS \`Schema\`, table_name AS \`Name\`, engine AS \`Engine\`, table_rows AS \`Rows (estimate)\`
+		FROM information_schema.tables
+		WHERE ((:schema IS NULL AND table_schema = DATABASE()) OR table_schema LIKE :schema) AND table_type = 'BASE TABLE'
+		  AND (:name IS NULL OR table_name LIKE :name)
+		ORDER BY 2`,
+	indexes: `
+		SELECT table_name AS \`Table\`, index_name AS \`Name\`,
+		       GROUP_CONCAT(column_name ORDER BY seq_in_index) AS \`Columns\`,
+		       IF(non_unique = 0, 'yes', 'no') AS \`Unique\`, index_type AS \`Method\`
+		FROM information_schema.statistics
+		WHERE ((:schema IS NULL AND table_schema = DATABASE()) OR table_schema LIKE :schema)
+		  AND (:name IS NULL OR index_name LIKE :name OR table_name LIKE :name)
+		GROUP BY table_name, index_name, non_unique, index_type
+		ORDER BY 1, 2`,
+	schemas: `
+		SELECT schema_name AS \`Name\`
+		FROM information_schema.schemata
+		WHERE :name IS NULL OR schema_name LIKE :name
+		ORDER BY 1`,
+	functions: `
+		SELECT routine_schema AS \`Schema\`, routine_name AS \`Name\`, dtd_identifier AS \`Result data type\`,
+		       LOWER(routine_type) AS \`Type\`
+		FROM information_schema.routines
+		WHERE ((:schema IS NULL AND routine_schema = DATABASE()) OR routine_schema LIKE :schema)
+		  AND (:name IS NULL OR routine_name LIKE :name)
+		ORDER BY 2`,
+	roles: `
+		SELECT user AS \`User\`, host AS \`Host\`
+		FROM mysql.user
+		WHERE :name IS NULL OR user LIKE :name
+		ORDER BY 1, 2`,
+	databases: `
+		SELECT schema_name AS \`Name\`, default_character_set_name AS \`Encoding\`, default_collation_name AS \`Collation\`
+		FROM information_schema.schemata
+		WHERE :name IS NULL OR schema_name LIKE :name
+		ORDER BY 1`,
+};
+
+interface DescribeColumnRow {
+	name: string;
+	type: string;
+	nullable: number;
+	column_default: string | null;
+}
+
+interface DescribeKeyRow {
+	name: string;
+	columns: string;
+	is_unique: number;
+	referenced_table: string;
+	referenced_columns: string;
+}
+
+async function describeTable(connection: mysql.Connection, name: string): Promise<TableDescription> {
+	const table = name.replace(/^`(.*)`$/, '$1').replace(/^"(.*)"$/, '$1');
+	const [columns] = await connection.query<(DescribeColumnRow & mysql.RowDataPacket)[]>(
+		`SELECT column_name AS name, column_type AS type, is_nullable = 'YES' AS nullable, column_default AS column_default
+		FROM information_schema.columns
+		WHERE table_schema = DATABASE() AND table_name = ?
+		ORDER BY ordinal_position`,
+		[table]
+	);
+	if (columns.length === 0) {
+		throw new Error(`Did not find any table named "${table}"`);
+	}
+	const [indexes] = await connection.query<(DescribeKeyRow & mysql.RowDataPacket)[]>(
+		`SELECT index_name AS name, GROUP_CONCAT(column_name ORDER BY seq_in_index) AS columns, non_unique = 0 AS is_unique
+		FROM information_schema.statistics
+		WHERE table_schema = DATABASE() AND table_name = ?
+		GROUP BY index_name, non_unique
+		ORDER BY index_name <> 'PRIMARY', index_name`,
+		[table]
+	);
+	const [foreignKeys] = await connection.query<(DescribeKeyRow & mysql.RowDataPacket)[]>(
+		`SELECT constraint_name AS name, GROUP_CONCAT(column_name ORDER BY ordinal_position) AS columns,
+		       referenced_table_name AS referenced_table,
+		       GROUP_CONCAT(referenced_column_name ORDER BY ordinal_position) AS referenced_columns
+		FROM information_schema.key_column_usage
+		WHERE table_schema = DATABASE() AND table_name = ? AND referenced_table_name IS NOT NULL
+		GROUP BY constraint_name, referenced_table_name
+		ORDER BY constraint_name`,
+		[table]
+	);
+
+	return {
+		columns: columns.map((row) => ({ name: row.name, type: row.type, nullable: Boolean(row.nullable), default: row.column_default })),
+		indexes: indexes.map((row) => ({
+			name: row.name,
+			columns: row.columns.split(','),
+			primary: row.name === 'PRIMARY',
+			unique: Boolean(row.is_unique),
+		})),
+		foreignKeys: foreignKeys.map((row) => ({
+			name: row.name,
+			columns: row.columns.split(','),
+			referencedTable: row.referenced_table,
+			referencedColumns: row.referenced_columns.split(','),
+		})),
+	};
+}
+
+/**
+ * Translate the shared SSL settings into mysql2's TLS options. Only the
+ * certificates given with ssl-ca, ssl-cert and ssl-key are used, never libpq's.
+ */
+function buildMysqlSsl(ssl: SslConfig, host: string): mysql.SslOptions {
+	const tlsOptions = buildTlsOptions(ssl, host, false);
+	return {
+		ca: tlsOptions.ca as string | undefined,
+		cert: tlsOptions.cert as string | undefined,
+		key: tlsOptions.key as string | undefined,
+		rejectUnauthorized: tlsOptions.rejectUnauthorized,
+		verifyIdentity: ssl.mode === 'verify-full',
+	};
+}
+
+interface MysqlConnection {
+	connection: mysql.Connection;
+	encrypted: boolean;
+	// Open another session over the same route with the same credentials
+	openSession: () => Promise<mysql.Connection>;
+	close: () => Promise<void>;
+}
+
+async function openConnection(config: ConnectionConfig, credentials: Credentials): Promise<MysqlConnection> {
+	const tunnel: SshTunnel | null = config.ssh ? await openSshTunnel(config.ssh, config.host, config.port) : null;
+	// Like the mysql client, default to ssl-mode=PREFERRED; PGSSL* variables do not apply
+	const ssl: SslConfig = { ...config.ssl, mode: config.ssl?.mode ?? 'prefer' };
+
+	const open = (useTls: boolean) =>
+		mysql.createConnection({
+			host: tunnel ? tunnel.localHost : config.host,
+			port: tunnel ? tunnel.localPort : config.port,
+			user: credentials.user,
+			password: credentials.password,
+			database: config.database || undefined,
+			ssl: useTls ? buildMysqlSsl(ssl, config.host) : undefined,
+			connectTimeout: config.connectTimeout ? config.connectTimeout * 1000 : undefined,
+			supportBigNumbers: true,
+		});
+
+	let lastError: unknown;
+	// "prefer" and "allow" fall back to the other option, like the Postgres driver
+	for (const useTls of getSslAttempts(ssl.mode)) {
+		try {
+			const connection = await open(useTls);
+			return {
+				connection,
+				encrypted: useTls,
+				openSession: () => open(useTls),
+				close: async () => {
+					try {
+						await connection.end();
+					} finally {
+						await tunnel?.close();
+					}
+				},
+			};
+		} catch (err) {
+			lastError = err;
+		}
+	}
+	await tunnel?.close();
+	throw lastError;
+}
+
+function quoteIdentifier(name: string): string {
+	return `\`${name.replace(/`/g, '``')}\``;
+}
+
+export async function connectMysql(config: ConnectionConfig, credentials: Credentials): Promise<DatabaseDriver> {
+	// Follows USE so a reconnect lands in the same database
+	let database = config.database;
+	let current: MysqlConnection;
+	let connected = false;
+	let closing = false;
+	let lastQuery = '';
+	const listeners = new Set<(error: Error) => void>();
+	const session = createSessionSettings();
+
+	const open = async () => {
+		const opened = await openConnection({ ...config, database }, credentials);
+		const { connection } = opened;
+		const lost = (error: Error) => {
+			// Only report the first failure of the current connection, and not our own close()
+			if (closing || !connected || connection !== current.connection) return;
+			connected = false;
+			for (const listener of listeners) listener(error);
+		};
+		connection.on('error', lost);
+		connection.on('end', () => lost(new Error('Connection closed by the server')));
+		current = opened;
+		connected = true;
+	};
+
+	await open();
+
+	const query = async (sql: string, params?: unknown[]): Promise<DriverResult> => {
+		lastQuery = sql;
+		const [result, fields] = await current.connection.query(sql, params);
+		session.record(sql);
+		const use = sql.trim().match(/^USE\s+(?:`((?:[^`]|``)+)`|(\w+))\s*;?$/i);
+		if (use) {
+			database = use[1] ? use[1].replace(/``/g, '`') : use[2];
+		}
+		return toDriverResult(result, fields);
+	};
+
+	const listDatabases = async () => {
+		const [rows] = await current.connection.query<mysql.RowDataPacket[]>('SHOW DATABASES');
+		return rows.map((row) => String(Object.values(row)[0]));
+	};
+
+	const useDatabase = async (name: string) => {
+		await query(`USE ${quoteIdentifier(name)}`);
+	};
+
+	return {
+		name: 'mysql',
+		get encrypted() {
+			return current.encrypted;
+		},
+
+		query,
+		listDatabases,
+		useDatabase,
+		// In MySQL a schema is a database
+		listSchemas: listDatabases,
+		useSchema: useDatabase,
+
+		async currentSchema() {
+			const [rows] = await current.connection.query<mysql.RowDataPacket[]>('SELECT DATABASE() AS name');
+			return (rows[0]?.name as string | null) ?? null;
+		},
+
+		async searchPath() {
+			// Unqualified names only resolve in the current database
+			const [rows] = await current.connection.query<mysql.RowDataPacket[]>('SELECT DATABASE() AS name');
+			const database = rows[0]?.name as string | null;
+			return database ? [database] : [];
+		},
+
+		async listObjects(kind, pattern) {
+			const [sql, params] = bindCatalogPattern(CATALOG_QUERIES[kind], pattern);
+			const [result, fields] = await current.connection.query(sql, params);
+			return toDriverResult(result, fields);
+		},
+
+		describeTable: (name) => describeTable(current.connection, name),
+
+		async cancel() {
+			// KILL QUERY from a short-lived second session over the same route
+			const killer = await current.openSession();
+			try {
+				await killer.query('KILL QUERY ?', [current.connection.threadId]);
+			} finally {
+				await killer.end().catch(() => {});
+			}
+		},
+
+		introspect: (schemas) => introspect(current.connection, schemas),
+
+		describeError(err): DriverError {
+			const message = (err as Error).message;
+			return {
+				message,
+				position: findErrorPosition(message, lastQuery),
+				severity: 'ERROR',
+				connectionLost: !connected || (err as { fatal?: boolean }).fatal === true,
+			};
+		},
+
+		onDisconnect(listener) {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		},
+
+		async reconnect() {
+			await current.close().catch(() => {});
+			await open();
+			for (const statement of session.statements) {
+				// A setting that no longer applies should not keep us disconnected
+				await current.connection.query(statement).catch(() => {});
+			}
+		},
+
+		async close() {
+			closing = true;
+			await current.close();
+		},
+	};
+}
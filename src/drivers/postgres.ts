@@ -0,0 +1,471 @@
+import pg from 'pg';
+import { connectClient, type ConnectedClient, type ConnectionConfig } from '../connection/index.js';
+import type { TableInfo, ColumnMeta, ForeignKey, RelationKind, RoutineInfo, SchemaObjects, TypeInfo } from '../autocomplete/types.js';
+import type { CatalogKind, Credentials, DatabaseDriver, DriverError, DriverResult, TableDescription } from './types.js';
+import { createSessionSettings } from './session.js';
+
+// OID -> type name, e.g. 23 -> "int4"
+const TYPE_NAMES = new Map<number, string>(
+	Object.entries(pg.types.builtins).map(([name, oid]) => [oid as number, name.toLowerCase()])
+);
+
+interface TableRow {
+	table_schema: string;
+	table_name: string;
+	kind: RelationKind;
+}
+
+interface ColumnRow {
+	table_schema: string;
+	table_name: string;
+	column_name: string;
+	data_type: string;
+	is_nullable: string;
+	enum_values: string[] | null;
+}
+
+interface ForeignKeyRow {
+	table_schema: string;
+	table_name: string;
+	column_name: string;
+	referenced_schema: string;
+	referenced_table: string;
+	referenced_column: string;
+}
+
+interface RoutineRow {
+	routine_schema: string;
+	routine_name: string;
+	kind: RoutineInfo['kind'];
+	arguments: string;
+	return_type: string | null;
+}
+
+interface TypeRow {
+	type_schema: string;
+	type_name: string;
+	kind: TypeInfo['kind'];
+	enum_values: string[] | null;
+	base_type: string | null;
+}
+
+function toDriverResult(result: pg.QueryResult | pg.QueryResult[]): DriverResult {
+	// Multi-statement strings return one result per statement; show the last, like psql -c
+	const last = Array.isArray(result) ? result[result.length - 1] : result;
+	return {
+		fields: (last.fields ?? []).map((field) => ({
+			name: field.name,
+			dataType: TYPE_NAMES.get(field.dataTypeID) ?? `oid:${field.dataTypeID}`,
+		})),
+		rows: last.rows ?? [],
+		rowCount: last.rowCount,
+	};
+}
+
+function describeError(err: unknown, connected: boolean): DriverError {
+	const pgError = err as {
+		message: string;
+		position?: string;
+		hint?: string;
+		severity?: string;
+		code?: string;
+	};
+	return {
+		message: pgError.message,
+		position: pgError.position ? parseInt(pgError.position, 10) : undefined,
+		hint: pgError.hint,
+		severity: (pgError.severity as DriverError['severity']) || 'ERROR',
+		// FATAL and 57P* (e.g. admin_shutdown) arrive just before the server closes the connection
+		connectionLost: !connected || pgError.severity === 'FATAL' || pgError.code?.startsWith('57P') === true,
+	};
+}
+
+// Labels of the enum type with this oid, in sort order
+const ENUM_LABELS = (typeOid: string) =>
+	`(SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder) FROM pg_enum e WHERE e.enumtypid = ${typeOid})`;
+
+// Partitioned and foreign tables count as tables
+const RELATION_KINDS = `CASE c.relkind WHEN 'v' THEN 'view' WHEN 'm' THEN 'materialized view' WHEN 'S' THEN 'sequence' ELSE 'table' END`;
+
+async function introspect(client: pg.Client, schemas: string[]): Promise<SchemaObjects> {
+	// pg_class rather than information_schema, which leaves out materialized views.
+	// Relations on the search path come first, in path order, so unqualified names find them first
+	const tablesResult = await client.query<TableRow>(`
+		SELECT n.nspname AS table_schema, c.relname AS table_name, ${RELATION_KINDS} AS kind
+		FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+		WHERE n.nspname = ANY($1)
+		  AND c.relkind IN ('r', 'p', 'f', 'v', 'm', 'S')
+		ORDER BY array_position(current_schemas(false), n.nspname), n.nspname, c.relname
+	`, [schemas]);
+
+	const columnsResult = await client.query<ColumnRow>(`
+		SELECT n.nspname AS table_schema, c.relname AS table_name, a.attname AS column_name,
+			format_type(a.atttypid, a.atttypmod) AS data_type,
+			CASE WHEN a.attnotnull THEN 'NO' ELSE 'YES' END AS is_nullable,
+			${ENUM_LABELS('a.atttypid')} AS enum_values
+		FROM pg_attribute a
+		JOIN pg_class c ON c.oid = a.attrelid
+		JOIN pg_namespace n ON n.oid = c.relnamespace
+		WHERE n.nspname = ANY($1)
+		  AND c.relkind IN ('r', 'p', 'f', 'v', 'm', 'S')
+		  AND a.attnum > 0 AND NOT a.attisdropped
+		ORDER BY n.nspname, c.relname, a.attnum
+	`, [schemas]);
+
+	// The referenced table may be in a schema that was not loaded
+	const foreignKeysResult = await client.query<ForeignKeyRow>(`
+		SELECT
+			kcu.table_schema,
+			kcu.table_name,
+			kcu.column_name,
+			ccu.table_schema AS referenced_schema,
+			ccu.table_name AS referenced_table,
+			ccu.column_name AS referenced_column
+		FROM information_schema.key_column_usage kcu
+		JOIN information_schema.constraint_column_usage ccu
+			ON kcu.constraint_name = ccu.constraint_name
+			AND kcu.constraint_schema = ccu.constraint_schema
+		JOIN information_schema.table_constraints tc
+			ON kcu.constraint_name = tc.constraint_name
+			AND kcu.constraint_schema = tc.constraint_schema
+		WHERE tc.constraint_type = 'FOREIGN KEY'
+			AND kcu.table_schema = ANY($1)
+	`, [schemas]);
+
+	// Functions that belong to an extension are left out, like the built-ins
+	const routinesResult = await client.query<RoutineRow>(`
+		SELECT n.nspname AS routine_schema, p.proname AS routine_name,
+			CASE p.prokind WHEN 'p' THEN 'procedure' WHEN 'a' THEN 'aggregate' WHEN 'w' THEN 'window' ELSE 'function' END AS kind,
+			pg_get_function_arguments(p.oid) AS arguments,
+			CASE WHEN p.prokind = 'p' THEN NULL ELSE pg_get_function_result(p.oid) END AS return_type
+		FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+		WHERE n.nspname = ANY($1)
+		  AND NOT EXISTS (SELECT 1 FROM pg_depend d WHERE d.classid = 'pg_proc'::regclass AND d.objid = p.oid AND d.deptype = 'e')
+		ORDER BY n.nspname, p.proname
+	`, [schemas]);
+
+	const typesResult = await client.query<TypeRow>(`
+		SELECT n.nspname AS type_schema, t.typname AS type_name,
+			CASE t.typtype WHEN 'e' THEN 'enum' ELSE 'domain' END AS kind,
+			${ENUM_LABELS('t.oid')} AS enum_values,
+			CASE WHEN t.typtype = 'd' THEN format_type(t.typbasetype, t.typtypmod) END AS base_type
+		FROM pg_type t JOIN pg_namespace n ON n.oid = t.typnamespace
+		WHERE n.nspname = ANY($1)
+		  AND t.typtype IN ('e', 'd')
+		ORDER BY n.nspname, t.typname
+	`, [schemas]);
+
+	const tableMap = new Map<string, TableInfo>();
+	const key = (row: { table_schema: string; table_name: string }) => `${row.table_schema}.${row.table_name}`;
+
+	for (const row of tablesResult.rows) {
+		tableMap.set(key(row), {
+			name: row.table_name,
+			schema: row.table_schema,
+			kind: row.kind,
+			columns: [],
+			foreignKeys: [],
+		});
+	}
+
+	for (const row of columnsResult.rows) {
+		const table = tableMap.get(key(row));
+		if (table) {
+			const column: ColumnMeta = {
+				name: row.column_name,
+				dataType: row.data_type,
+				isNullable: row.is_nullable === 'YES',
+				enumValues: row.enum_values ?? undefined,
+			};
+			table.columns.push(column);
+		}
+	}
+
+	for (const row of foreignKeysResult.rows) {
+		const table = tableMap.get(key(row));
+		if (table) {
+			const fk: ForeignKey = {
+				column: row.column_name,
+				referencedSchema: row.referenced_schema,
+				referencedTable: row.referenced_table,
+				referencedColumn: row.referenced_column,
+			};
+			table.foreignKeys.push(fk);
+		}
+	}
+
+	return {
+		tables: Array.from(tableMap.values()),
+		routines: routinesResult.rows.map((row) => ({
+			name: row.routine_name,
+			schema: row.routine_schema,
+			kind: row.kind,
+			arguments: row.arguments,
+			returnType: row.return_type,
+		})),
+		types: typesResult.rows.map((row) => ({
+			name: row.type_name,
+			schema: row.type_schema,
+			kind: row.kind,
+			values: row.enum_values ?? [],
+			baseType: row.base_type,
+		})),
+	};
+}
+
+// Objects in pg_catalog, information_schema and TOAST schemas are left out, as psql does without S
+const USER_SCHEMAS = "n.nspname NOT IN ('pg_catalog', 'information_schema') AND n.nspname !~ '^pg_toast'";
+
+const RELATION_TYPE = `CASE c.relkind
+	WHEN 'r' THEN 'table' WHEN 'p' THEN 'partitioned table' WHEN 'v' THEN 'view'
+	WHEN 'm' THEN 'materialized view' WHEN 'S' THEN 'sequence' WHEN 'f' THEN 'foreign table'
+END`;
+
+// Catalog queries behind \d, \dt, ...; $1 is the name pattern and $2, where used, the schema pattern.
+// Without a schema pattern only objects visible on the search path are listed, as in psql
+const CATALOG_QUERIES: Record<CatalogKind, string> = {
+	relations: `
+		SELECT n.nspname AS "Schema", c.relname AS "Name", ${RELATION_TYPE} AS "Type", pg_get_userbyid(c.relowner) AS "Owner"
+		FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+		WHERE c.relkind IN ('r', 'p', 'v', 'm', 'S', 'f') AND ${USER_SCHEMAS}
+			AND ($2::text IS NULL AND pg_table_is_visible(c.oid) OR n.nspname ILIKE $2)
+			AND ($1::text IS NULL OR c.relname ILIKE $1)
+		ORDER BY 1, 2`,
+	tables: `
+		SELECT n.nspname AS "Schema", c.relname AS "Name", ${RELATION_TYPE} AS "Type", pg_get_userbyid(c.relowner) AS "Owner"
+		FROM pg_class c JOIN pg_namespace n ON n.oid = c.relnamespace
+		WHERE c.relkind IN ('r', 'p') AND ${USER_SCHEMAS}
+			AND ($2::text IS NULL AND pg_table_is_visible(c.oid) OR n.nspname ILIKE $2)
+			AND ($1::text IS NULL OR c.relname ILIKE $1)
+		ORDER BY 1, 2`,
+	indexes: `
+		SELECT n.nspname AS "Schema", c.relname AS "Name", t.relname AS "Table", pg_get_indexdef(c.oid) AS "Definition"
+		FROM pg_index i
+		JOIN pg_class c ON c.oid = i.indexrelid
+		JOIN pg_class t ON t.oid = i.indrelid
+		JOIN pg_namespace n ON n.oid = c.relnamespace
+		WHERE ${USER_SCHEMAS} AND ($2::text IS NULL AND pg_table_is_visible(c.oid) OR n.nspname ILIKE $2)
+			AND ($1::text IS NULL OR c.relname ILIKE $1 OR t.relname ILIKE $1)
+		ORDER BY 1, 3, 2`,
+	schemas: `
+		SELECT n.nspname AS "Name", pg_get_userbyid(n.nspowner) AS "Owner"
+		FROM pg_namespace n
+		WHERE n.nspname !~ '^pg_' AND n.nspname <> 'information_schema' AND ($1::text IS NULL OR n.nspname ILIKE $1)
+		ORDER BY 1`,
+	functions: `
+		SELECT n.nspname AS "Schema", p.proname AS "Name", pg_get_function_result(p.oid) AS "Result data type",
+			pg_get_function_arguments(p.oid) AS "Argument data types",
+			CASE p.prokind WHEN 'a' THEN 'agg' WHEN 'w' THEN 'window' WHEN 'p' THEN 'proc' ELSE 'func' END AS "Type"
+		FROM pg_proc p JOIN pg_namespace n ON n.oid = p.pronamespace
+		WHERE ${USER_SCHEMAS} AND ($2::text IS NULL AND pg_function_is_visible(p.oid) OR n.nspname ILIKE $2)
+			AND ($1::text IS NULL OR p.proname ILIKE $1)
+		ORDER BY 1, 2, 4`,
+	roles: `
+		SELECT r.rolname AS "Role name", concat_ws(', ',
+			CASE WHEN r.rolsuper THEN 'Superuser' END,
+			CASE WHEN r.rolcreaterole THEN 'Create role' END,
+			CASE WHEN r.rolcreatedb THEN 'Create DB' END,
+			CASE WHEN NOT r.rolcanlogin THEN 'Cannot login' END,
+			CASE WHEN r.rolreplication THEN 'Replication' END
+		) AS "Attributes"
+		FROM pg_roles r
+		WHERE r.rolname !~ '^pg_' AND ($1::text IS NULL OR r.rolname ILIKE $1)
+		ORDER BY 1`,
+	databases: `
+		SELECT d.datname AS "Name", pg_get_userbyid(d.datdba) AS "Owner", pg_encoding_to_char(d.encoding) AS "Encoding",
+			d.datcollate AS "Collate",
+			CASE WHEN has_database_privilege(d.datname, 'CONNECT') THEN pg_size_pretty(pg_database_size(d.datname)) ELSE 'No Access' END AS "Size"
+		FROM pg_database d
+		WHERE $1::text IS NULL OR d.datname ILIKE $1
+		ORDER BY 1`,
+};
+
+// Column names of an index or constraint, in key order
+const keyColumns = (keys: string, table: string) => `ARRAY(
+	SELECT a.attname::text FROM unnest(${keys}) WITH ORDINALITY AS k(attnum, ord)
+	JOIN pg_attribute a ON a.attrelid = ${table} AND a.attnum = k.attnum
+	ORDER BY k.ord
+)`;
+
+/**
+ * Describe a table for \d. The name is parsed like any table reference in
+ * Postgres, so it may be schema-qualified and is case-folded unless quoted.
+ */
+async function describeTable(client: pg.Client, name: string): Promise<TableDescription> {
+	const columns = await client.query<{ name: string; type: string; nullable: boolean; default: string | null }>(
+		`SELECT a.attname AS name, format_type(a.atttypid, a.atttypmod) AS type, NOT a.attnotnull AS nullable,
+			pg_get_expr(d.adbin, d.adrelid) AS default
+		FROM pg_attribute a
+		LEFT JOIN pg_attrdef d ON d.adrelid = a.attrelid AND d.adnum = a.attnum
+		WHERE a.attrelid = $1::regclass AND a.attnum > 0 AND NOT a.attisdropped
+		ORDER BY a.attnum`,
+		[name]
+	);
+	const indexes = await client.query<{ name: string; columns: string[]; primary: boolean; unique: boolean }>(
+		`SELECT c.relname AS name, ${keyColumns('i.indkey::int2[]', 'i.indrelid')} AS columns,
+			i.indisprimary AS primary, i.indisunique AS unique
+		FROM pg_index i JOIN pg_class c ON c.oid = i.indexrelid
+		WHERE i.indrelid = $1::regclass
+		ORDER BY NOT i.indisprimary, c.relname`,
+		[name]
+	);
+	const foreignKeys = await client.query<{ name: string; columns: string[]; referenced_table: string; referenced_columns: string[] }>(
+		`SELECT con.conname AS name, ${keyColumns('con.conkey', 'con.conrelid')} AS columns,
+			con.confrelid::regclass::text AS referenced_table,
+			${keyColumns('con.confkey', 'con.confrelid')} AS referenced_columns
+		FROM pg_constraint con
+		WHERE con.conrelid = $1::regclass AND con.contype = 'f'
+		ORDER BY con.conname`,
+		[name]
+	);
+
+	return {
+		columns: columns.rows,
+		indexes: indexes.rows,
+		foreignKeys: foreignKeys.rows.map((row) => ({
+			name: row.name,
+			columns: row.columns,
+			referencedTable: row.referenced_table,
+			referencedColumns: row.referenced_columns,
+		})),
+	};
+}
+
+function quoteIdentifier(name: string): string {
+	return `"${name.replace(/"/g, '""')}"`;
+}
+
+export async function connectPostgres(config: ConnectionConfig, credentials: Credentials): Promise<DatabaseDriver> {
+	// Changes when switching databases with \c
+	let target = config;
+	let connection: ConnectedClient;
+	let connected = false;
+	let closing = false;
+	const listeners = new Set<(error: Error) => void>();
+	const session = createSessionSettings();
+
+	const open = async () => {
+		const opened = await connectClient(target, credentials.user, credentials.password);
+		const { client } = opened;
+		const lost = (error: Error) => {
+			// Only report the first failure of the current client, and not our own close()
+			if (closing || !connected || client !== connection.client) return;
+			connected = false;
+			for (const listener of listeners) listener(error);
+		};
+		client.on('error', lost);
+		client.on('end', () => lost(new Error('Connection closed by the server')));
+		connection = opened;
+		connected = true;
+	};
+
+	await open();
+
+	const query = async (sql: string, params?: unknown[]): Promise<DriverResult> => {
+		const result = toDriverResult(await connection.client.query(sql, params));
+		session.record(sql);
+		return result;
+	};
+
+	return {
+		name: 'postgres',
+		get encrypted() {
+			return connection.encrypted;
+		},
+
+		query,
+
+		async listDatabases() {
+			const result = await connection.client.query<{ datname: string }>(
+				'SELECT datname FROM pg_database WHERE datallowconn AND NOT datistemplate ORDER BY datname'
+			);
+			return result.rows.map((row) => row.datname);
+		},
+
+		async useDatabase(name) {
+			// Postgres sessions are bound to one database, so open a new one and only then drop the old
+			const previous = connection;
+			const previousTarget = target;
+			target = { ...target, database: name };
+			try {
+				await open();
+			} catch (err) {
+				target = previousTarget;
+				throw err;
+			}
+			await previous.close().catch(() => {});
+			for (const statement of session.statements) {
+				await connection.client.query(statement).catch(() => {});
+			}
+		},
+
+		async listSchemas() {
+			const result = await connection.client.query<{ nspname: string }>(`
+				SELECT nspname FROM pg_namespace
+				WHERE nspname NOT LIKE 'pg\\_%' AND nspname <> 'information_schema'
+				ORDER BY nspname
+			`);
+			return result.rows.map((row) => row.nspname);
+		},
+
+		async useSchema(name) {
+			await query(`SET search_path TO ${quoteIdentifier(name)}`);
+		},
+
+		async currentSchema() {
+			const result = await connection.client.query<{ schema: string | null }>('SELECT current_schema() AS schema');
+			return result.rows[0]?.schema ?? null;
+		},
+
+		async searchPath() {
+			// Only schemas that exist, without the implicit pg_catalog
+			const result = await connection.client.query<{ schema: string }>(
+				'SELECT schema FROM unnest(current_schemas(false)) WITH ORDINALITY AS path(schema, position) ORDER BY position'
+			);
+			return result.rows.map((row) => row.schema);
+		},
+
+		async listObjects(kind, pattern) {
+			const sql = CATALOG_QUERIES[kind];
+			const params = sql.includes('$2') ? [pattern.name, pattern.schema] : [pattern.name];
+			return toDriverResult(await connection.client.query(sql, params));
+		},
+
+		describeTable: (name) => describeTable(connection.client, name),
+
+		async cancel() {
+			// Cancel from a short-lived second session, which reuses the tunnel and TLS settings
+			const canceller = await connection.openSession();
+			try {
+				await canceller.query('SELECT pg_cancel_backend($1)', [
+					(connection.client as unknown as { processID: number }).processID,
+				]);
+			} finally {
+				await canceller.end().catch(() => {});
+			}
+		},
+
+		introspect: (schemas) => introspect(connection.client, schemas),
+		describeError: (err) => describeError(err, connected),
+
+		onDisconnect(listener) {
+			listeners.add(listener);
+			return () => listeners.delete(listener);
+		},
+
+		async reconnect() {
+			// The SSH tunnel may have died with the connection, so rebuild the whole route
+			await connection.close().catch(() => {});
+			await open();
+			for (const statement of session.statements) {
+				// A setting that no longer applies (e.g. a dropped role) should not keep us disconnected
+				await connection.client.query(statement).catch(() => {});
+			}
+		},
+
+		async close() {
+			closing = true;
+			await connection.close();
+		},
+	};
+}
@@ -0,0 +1,49 @@
+// SET statements scoped to the current transaction, which must not outlive it
+const TRANSACTION_SCOPED = /^(?:LOCAL|TRANSACTION|CONSTRAINTS)\b/i;
+
+function normalizeName(name: string): string {
+	return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export interface SessionSettings {
+	// Remember the statement if it changes a session setting
+	record(sql: string): void;
+	// Statements to replay on a new connection, oldest first
+	readonly statements: string[];
+}
+
+/**
+ * Track session-level SET statements (search_path, time zone, sql_mode, ...) so a
+ * reconnected session can be put back in the same state. A later SET of the same
+ * setting replaces the earlier one; RESET removes it, and RESET ALL forgets everything.
+ */
+export function createSessionSettings(): SessionSettings {
+	const settings = new Map<string, string>();
+
+	return {
+		record(sql) {
+			const statement = sql.trim().replace(/;\s*$/, '');
+			if (statement.includes(';')) return; // Only single statements are tracked
+
+			const reset = statement.match(/^RESET\s+(.+)$/i);
+			if (reset) {
+				const name = normalizeName(reset[1]);
+				if (name === 'all') {
+					settings.clear();
+				} else {
+					settings.delete(name);
+				}
+				return;
+			}
+
+			const set = statement.match(/^SET\s+(?:SESSION\s+)?(.+)$/i);
+			if (!set || TRANSACTION_SCOPED.test(set[1])) return;
+			const name = set[1].match(/^(?:TIME\s+ZONE|SESSION\s+AUTHORIZATION|CHARACTER\s+SET|[@\w.`"]+)/i)?.[0] ?? set[1];
+			settings.set(normalizeName(name), statement);
+		},
+
+		get statements() {
+			return Array.from(settings.values());
+		},
+	};
+}
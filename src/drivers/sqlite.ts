@@ -0,0 +1,265 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import type { ConnectionConfig } from '../connection/index.js';
+import type { SchemaObjects, TableInfo } from '../autocomplete/types.js';
+import type { CatalogKind, DatabaseDriver, DriverResult, TableDescription } from './types.js';
+import { bindCatalogPattern } from './catalogPattern.js';
+import { findTokenPosition } from './errorPosition.js';
+
+interface TableRow {
+	name: string;
+	type: 'table' | 'view';
+}
+
+interface ColumnRow {
+	name: string;
+	type: string;
+	notnull: number;
+	pk: number;
+}
+
+interface ForeignKeyRow {
+	table: string;
+	from: string;
+	to: string | null;
+}
+
+// better-sqlite3 is an optional dependency with a native build, so load it on demand
+async function loadSqlite(): Promise<typeof BetterSqlite3> {
+	try {
+		return (await import('better-sqlite3')).default;
+	} catch {
+		throw new Error('SQLite support requires the optional better-sqlite3 dependency, which is not installed');
+	}
+}
+
+function runQuery(db: BetterSqlite3.Database, sql: string, params: unknown[] = []): DriverResult {
+	const stmt = db.prepare(sql);
+	if (!stmt.reader) {
+		const info = stmt.run(...params);
+		return { fields: [], rows: [], rowCount: info.changes };
+	}
+	const rows = stmt.all(...params) as Record<string, unknown>[];
+	return {
+		fields: stmt.columns().map((column) => ({ name: column.name, dataType: column.type ?? '' })),
+		rows,
+		rowCount: rows.length,
+	};
+}
+
+/**
+ * Find where in the query a SQLite error points. SQLite reports the offending
+ * token rather than an offset, e.g. `near "FORM": syntax error` or `no such column: nme`.
+ */
+function findErrorPosition(message: string, sql: string): number | undefined {
+	if (/incomplete input/.test(message)) {
+		return sql.trimEnd().length;
+	}
+	const token = message.match(/^near "(.+)": syntax error/)?.[1] ?? message.match(/^no such (?:column|table): (\S+)/)?.[1];
+	return token ? findTokenPosition(sql, token) : undefined;
+}
+
+function introspect(db: BetterSqlite3.Database): TableInfo[] {
+	const tables = db
+		.prepare(`SELECT name, type FROM sqlite_master WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' ORDER BY name`)
+		.all() as TableRow[];
+	const columnsStmt = db.prepare('SELECT name, type, "notnull", pk FROM pragma_table_info(?) ORDER BY cid');
+	const foreignKeysStmt = db.prepare('SELECT "table", "from", "to" FROM pragma_foreign_key_list(?) ORDER BY id, seq');
+
+	const columnsByTable = new Map<string, ColumnRow[]>();
+	for (const table of tables) {
+		columnsByTable.set(table.name, columnsStmt.all(table.name) as ColumnRow[]);
+	}
+
+	return tables.map((table) => {
+		const columns = columnsByTable.get(table.name) ?? [];
+		const foreignKeys = (foreignKeysStmt.all(table.name) as ForeignKeyRow[]).map((fk) => {
+			// REFERENCES parent with no column list points at the parent's primary key
+			const referencedColumn =
+				fk.to ?? columnsByTable.get(fk.table)?.find((column) => column.pk === 1)?.name ?? 'rowid';
+			return { column: fk.from, referencedSchema: 'main', referencedTable: fk.table, referencedColumn };
+		});
+		return {
+			name: table.name,
+			schema: 'main',
+			kind: table.type,
+			columns: columns.map((column) => ({
+				name: column.name,
+				dataType: column.type.toLowerCase(),
+				isNullable: column.notnull === 0 && column.pk === 0,
+			})),
+			foreignKeys,
+		};
+	});
+}
+
+// Catalog queries behind \d, \dt, ...; :name and :schema are the name and schema patterns or null
+const CATALOG_QUERIES: Partial<Record<CatalogKind, string>> = {
+	relations: `
+		SELECT 'main' AS "Schema", name AS "Name", type AS "Type"
+		FROM sqlite_master
+		WHERE type IN ('table', 'view') AND name NOT LIKE 'sqlite_%' AND (:schema IS NULL OR 'main' LIKE :schema)
+			AND (:name IS NULL OR name LIKE :name)
+		ORDER BY name`,
+	tables: `
+		SELECT 'main' AS "Schema", name AS "Name", type AS "Type"
+		FROM sqlite_master
+		WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND (:schema IS NULL OR 'main' LIKE :schema)
+			AND (:name IS NULL OR name LIKE :name)
+		ORDER BY name`,
+	indexes: `
+		SELECT name AS "Name", tbl_name AS "Table", sql AS "Definition"
+		FROM sqlite_master
+		WHERE type = 'index' AND (:schema IS NULL OR 'main' LIKE :schema)
+			AND (:name IS NULL OR name LIKE :name OR tbl_name LIKE :name)
+		ORDER BY tbl_name, name`,
+	// Attached databases are SQLite's schemas
+	schemas: `SELECT name AS "Name", file AS "File" FROM pragma_database_list WHERE :name IS NULL OR name LIKE :name`,
+	databases: `SELECT name AS "Name", file AS "File" FROM pragma_database_list WHERE :name IS NULL OR name LIKE :name`,
+	functions: `
+		SELECT DISTINCT
+			name AS "Name",
+			CASE type WHEN 'a' THEN 'aggregate' WHEN 'w' THEN 'window' ELSE 'scalar' END AS "Type",
+			CASE WHEN narg < 0 THEN 'any' ELSE narg END AS "Arguments"
+		FROM pragma_function_list
+		WHERE :name IS NULL OR name LIKE :name
+		ORDER BY name, narg`,
+};
+
+interface IndexListRow {
+	name: string;
+	unique: number;
+	origin: string; // "pk", "u" (UNIQUE constraint) or "c" (CREATE INDEX)
+}
+
+interface ForeignKeyListRow extends ForeignKeyRow {
+	id: number;
+}
+
+function describeTable(db: BetterSqlite3.Database, name: string): TableDescription {
+	const table = name.replace(/^["`[](.*)["`\]]$/, '$1');
+	const columns = db.prepare('SELECT name, type, "notnull", dflt_value, pk FROM pragma_table_info(?) ORDER BY cid').all(table) as (ColumnRow & {
+		dflt_value: string | null;
+	})[];
+	if (columns.length === 0) {
+		throw new Error(`Did not find any table named "${table}"`);
+	}
+
+	const indexColumns = db.prepare('SELECT name FROM pragma_index_info(?) ORDER BY seqno');
+	const indexes = (db.prepare('SELECT name, "unique", origin FROM pragma_index_list(?) ORDER BY name').all(table) as IndexListRow[]).map((row) => ({
+		name: row.name,
+		columns: (indexColumns.all(row.name) as { name: string }[]).map((column) => column.name),
+		primary: row.origin === 'pk',
+		unique: row.unique === 1,
+	}));
+	// An INTEGER PRIMARY KEY is the rowid itself and has no index of its own
+	const keyColumns = columns.filter((column) => column.pk > 0).sort((a, b) => a.pk - b.pk);
+	if (keyColumns.length > 0 && !indexes.some((index) => index.primary)) {
+		indexes.unshift({ name: 'rowid', columns: keyColumns.map((column) => column.name), primary: true, unique: true });
+	}
+
+	const foreignKeys = new Map<number, TableDescription['foreignKeys'][number]>();
+	for (const row of db.prepare('SELECT id, "table", "from", "to" FROM pragma_foreign_key_list(?) ORDER BY id, seq').all(table) as ForeignKeyListRow[]) {
+		const key = foreignKeys.get(row.id) ?? { name: `fk_${row.id}`, columns: [], referencedTable: row.table, referencedColumns: [] };
+		key.columns.push(row.from);
+		key.referencedColumns.push(row.to ?? 'PRIMARY KEY');
+		foreignKeys.set(row.id, key);
+	}
+
+	return {
+		columns: columns.map((column) => ({
+			name: column.name,
+			type: column.type.toLowerCase(),
+			nullable: column.notnull === 0 && column.pk === 0,
+			default: column.dflt_value,
+		})),
+		indexes,
+		foreignKeys: [...foreignKeys.values()],
+	};
+}
+
+export async function connectSqlite(config: ConnectionConfig): Promise<DatabaseDriver> {
+	const Database = await loadSqlite();
+
+	let db: BetterSqlite3.Database;
+	try {
+		db = new Database(config.database, { fileMustExist: config.database !== ':memory:' });
+	} catch (err) {
+		throw new Error(`Could not open SQLite database "${config.database}": ${(err as Error).message}`);
+	}
+	db.pragma('foreign_keys = ON');
+
+	let lastQuery = '';
+
+	return {
+		name: 'sqlite',
+
+		async query(sql, params) {
+			lastQuery = sql;
+			return runQuery(db, sql, params);
+		},
+
+		// Queries run synchronously, so there is never one in flight to cancel
+		async cancel() {},
+
+		// Only the main database is loaded, as everywhere else in this driver.
+		// SQLite has no sequences, stored routines or named types
+		async introspect(schemas): Promise<SchemaObjects> {
+			return { tables: schemas.includes('main') ? introspect(db) : [], routines: [], types: [] };
+		},
+
+		async searchPath() {
+			return ['main'];
+		},
+
+		// One file is one database; attached databases are not switched to
+		async listDatabases() {
+			return [config.database];
+		},
+
+		async useDatabase() {
+			throw new Error('SQLite connections cannot switch databases; open another file instead');
+		},
+
+		async listSchemas() {
+			return ['main'];
+		},
+
+		async useSchema(name) {
+			if (name !== 'main') {
+				throw new Error(`SQLite only supports the "main" schema here, not "${name}"`);
+			}
+		},
+
+		async currentSchema() {
+			return 'main';
+		},
+
+		async listObjects(kind, pattern) {
+			const sql = CATALOG_QUERIES[kind];
+			if (!sql) {
+				throw new Error('SQLite has no users or roles');
+			}
+			return runQuery(db, ...bindCatalogPattern(sql, pattern));
+		},
+
+		async describeTable(name) {
+			return describeTable(db, name);
+		},
+
+		describeError(err) {
+			const message = (err as Error).message;
+			return { message, position: findErrorPosition(message, lastQuery), severity: 'ERROR' };
+		},
+
+		// A local file cannot drop its connection
+		onDisconnect() {
+			return () => {};
+		},
+
+		async reconnect() {},
+
+		async close() {
+			db.close();
+		},
+	};
+}
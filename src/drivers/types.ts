@@ -0,0 +1,103 @@
+import type { DriverName } from '../connection/index.js';
+import type { SchemaObjects } from '../autocomplete/types.js';
+
+export interface FieldInfo {
+	name: string;
+	dataType: string; // Database type name, e.g. "int4" or "TEXT"
+}
+
+export interface DriverResult {
+	fields: FieldInfo[];
+	rows: Record<string, unknown>[];
+	rowCount: number | null; // Rows returned or affected; null when not applicable
+}
+
+/**
+ * A query error normalized across drivers.
+ * `position` is the 1-indexed character offset into the query, when known.
+ */
+export interface DriverError {
+	message: string;
+	position?: number;
+	hint?: string;
+	severity?: 'ERROR' | 'WARNING' | 'NOTICE';
+	// The query failed because the connection dropped, not because of the query itself
+	connectionLost?: boolean;
+}
+
+// Objects listed by the psql-style catalog commands: \d, \dt, \dn, \df, \di, \du and \l
+export type CatalogKind = 'relations' | 'tables' | 'schemas' | 'functions' | 'indexes' | 'roles' | 'databases';
+
+// LIKE patterns for a catalog listing; null matches anything. Only schema-qualified kinds get a schema
+export interface CatalogPattern {
+	schema: string | null;
+	name: string | null;
+}
+
+export interface ColumnDescription {
+	name: string;
+	type: string;
+	nullable: boolean;
+	default: string | null;
+}
+
+export interface IndexDescription {
+	name: string;
+	columns: string[];
+	primary: boolean;
+	unique: boolean;
+}
+
+export interface ForeignKeyDescription {
+	name: string;
+	columns: string[];
+	referencedTable: string;
+	referencedColumns: string[];
+}
+
+// What \d shows for one table
+export interface TableDescription {
+	columns: ColumnDescription[];
+	indexes: IndexDescription[];
+	foreignKeys: ForeignKeyDescription[];
+}
+
+export interface DatabaseDriver {
+	readonly name: DriverName;
+	// Whether the connection is TLS-encrypted; undefined for local databases
+	readonly encrypted?: boolean;
+
+	query(sql: string, params?: unknown[]): Promise<DriverResult>;
+	// Cancel the query currently running on this connection, if any
+	cancel(): Promise<void>;
+	// Tables, views, sequences, routines and types of the given schemas, for autocomplete and validation
+	introspect(schemas: string[]): Promise<SchemaObjects>;
+	// Schemas unqualified table names resolve to, in lookup order
+	searchPath(): Promise<string[]>;
+	// Databases on the server, for switching with \c
+	listDatabases(): Promise<string[]>;
+	// Switch to another database on the same server, keeping the credentials
+	useDatabase(name: string): Promise<void>;
+	// Schemas in the current database, for switching with \schema
+	listSchemas(): Promise<string[]>;
+	// Make a schema the default for unqualified names and for introspection
+	useSchema(name: string): Promise<void>;
+	// The schema unqualified names currently resolve to
+	currentSchema(): Promise<string | null>;
+	// Catalog listing for \dt, \dn, ...; `pattern` holds LIKE patterns for the schema and object names
+	listObjects(kind: CatalogKind, pattern: CatalogPattern): Promise<DriverResult>;
+	// Columns, indexes and foreign keys of a table, for \d name. Throws when there is no such table
+	describeTable(name: string): Promise<TableDescription>;
+	describeError(err: unknown): DriverError;
+	// Register a listener for unexpected connection loss (server restart, idle timeout, network failure).
+	// Returns a function that removes the listener.
+	onDisconnect(listener: (error: Error) => void): () => void;
+	// Connect again with the same credentials and replay session settings made with SET
+	reconnect(): Promise<void>;
+	close(): Promise<void>;
+}
+
+export interface Credentials {
+	user: string;
+	password: string;
+}
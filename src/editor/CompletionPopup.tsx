@@ -0,0 +1,55 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import type { Completion, CompletionKind } from '../autocomplete/index.js';
+
+interface CompletionPopupProps {
+	completions: Completion[];
+	selected: number;
+	active: boolean; // Whether ↑↓ move the selection, rather than the cursor
+	column: number; // Where the word being completed starts, counting the gutter; the border and padding sit left of it
+}
+
+const VISIBLE_ITEMS = 6;
+
+const KIND_COLORS: Record<CompletionKind, string> = {
+	column: 'cyan',
+	table: 'green',
+	view: 'green',
+	sequence: 'green',
+	schema: 'greenBright',
+	function: 'magenta',
+	type: 'magentaBright',
+	value: 'cyanBright',
+	keyword: 'blue',
+	join: 'yellow',
+};
+
+/**
+ * Ranked completions listed under the word being typed, labelled by kind,
+ * with column types. The list scrolls to keep the selection visible.
+ */
+export const CompletionPopup = ({ completions, selected, active, column }: CompletionPopupProps) => {
+	const offset = Math.max(0, Math.min(selected - VISIBLE_ITEMS + 1, completions.length - VISIBLE_ITEMS));
+	const visible = completions.slice(offset, offset + VISIBLE_ITEMS);
+	const textWidth = Math.max(...visible.map((completion) => completion.text.length));
+	const kindWidth = Math.max(...visible.map((completion) => completion.kind.length));
+
+	return (
+		<Box flexDirection="column" marginLeft={Math.max(0, column - 2)} borderStyle="round" borderColor="gray" paddingX={1} alignSelf="flex-start">
+			{visible.map((completion, idx) => {
+				const isSelected = offset + idx === selected;
+				return (
+					<Text key={`${completion.kind}:${completion.text}`} inverse={isSelected}>
+						{completion.text.padEnd(textWidth)}{' '}
+						<Text color={KIND_COLORS[completion.kind]}>{completion.kind.padEnd(kindWidth)}</Text>
+						{completion.detail && <Text dimColor> {completion.detail}</Text>}
+					</Text>
+				);
+			})}
+			<Text dimColor>
+				{completions.length > VISIBLE_ITEMS ? `${selected + 1}/${completions.length} • ` : ''}
+				{active ? '↑↓ select' : 'Ctrl+N select'} • Tab accept • Esc close
+			</Text>
+		</Box>
+	);
+};
@@ -0,0 +1,363 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Box, Text, useInput } from 'ink';
+import SyntaxHighlight from 'ink-syntax-highlight';
+import type { Decoration, DecorationStyle } from 'ink-mini-code-editor';
+import type { Completion } from '../autocomplete/index.js';
+import { CompletionPopup } from './CompletionPopup.js';
+import {
+	INDENT,
+	deleteBackward,
+	deleteRange,
+	getCursorPosition,
+	getLineEnd,
+	getLineStart,
+	insertNewline,
+	insertText,
+	moveVertically,
+	typeText,
+	type EditResult,
+	type TextRange,
+} from './buffer.js';
+
+interface SqlEditorProps {
+	value: string;
+	onChange: (value: string) => void;
+	onSubmit: (value: string) => void;
+	// Alt+Enter / Ctrl+T: run the selection, or the statement at the cursor when nothing is selected
+	onRunAtCursor?: (selection: TextRange | null, cursor: number) => void;
+	placeholder?: string;
+	focus?: boolean;
+	decorations?: Decoration[]; // Character ranges of the whole text, as for TextInput
+	getCompletions?: (value: string, cursor: number) => Completion[]; // The whole text, so names declared after the cursor count
+	// Up on the first line / Down on the last line, used for query history
+	onHistoryPrevious?: () => void;
+	onHistoryNext?: () => void;
+	browsingHistory?: boolean; // ↑↓ keep stepping through history rather than the completion list
+}
+
+const DECORATION_STYLES: Record<DecorationStyle, { color?: string; backgroundColor?: string; underline?: boolean }> = {
+	error: { color: 'red', underline: true },
+	warning: { color: 'yellow', underline: true },
+	info: { color: 'blue', underline: true },
+	highlight: { backgroundColor: 'yellow' },
+};
+
+// Ctrl+Enter as sent by terminals with the kitty keyboard protocol or xterm's modifyOtherKeys
+// (Ink strips the leading escape); most other terminals send a plain Enter
+const CTRL_ENTER_SEQUENCES = ['[13;5u', '[27;5;13~'];
+
+/**
+ * Enter runs the query when it already ends in ";" or is a backslash command,
+ * as in psql, provided the cursor is at the end; otherwise it inserts a line break.
+ */
+function shouldSubmitOnEnter(value: string, cursor: number): boolean {
+	if (value.slice(cursor).trim()) return false;
+	const text = value.trim();
+	return text.endsWith(';') || text.startsWith('\\');
+}
+
+interface EditorLineProps {
+	text: string;
+	start: number; // Offset of the line in the whole text
+	cursor: number | null; // Offset within the line, or null when the cursor is elsewhere
+	selection: TextRange | null; // In whole-text offsets
+	decorations: Decoration[];
+}
+
+// One line split into runs that share the same cursor, selection and decoration styling
+const EditorLine = ({ text, start, cursor, selection, decorations }: EditorLineProps) => {
+	const toLine = (range: TextRange) => ({
+		start: Math.max(0, range.start - start),
+		end: Math.min(text.length, range.end - start),
+	});
+	const local = decorations.map((dec) => ({ ...dec, ...toLine(dec) })).filter((dec) => dec.start < dec.end);
+	const selected = selection ? toLine(selection) : null;
+
+	const points = new Set([0, text.length]);
+	if (cursor !== null && cursor < text.length) {
+		points.add(cursor);
+		points.add(cursor + 1);
+	}
+	for (const range of selected && selected.start < selected.end ? [...local, selected] : local) {
+		points.add(range.start);
+		points.add(range.end);
+	}
+	const sorted = [...points].sort((a, b) => a - b);
+
+	const segments = [];
+	for (let i = 0; i < sorted.length - 1; i++) {
+		const [from, to] = [sorted[i], sorted[i + 1]];
+		const segment = text.slice(from, to);
+		if (from === cursor) {
+			segments.push(<Text key={from} inverse>{segment}</Text>);
+			continue;
+		}
+		const styles = local.filter((dec) => dec.start < to && dec.end > from).map((dec) => DECORATION_STYLES[dec.style]);
+		if (selected && from >= selected.start && to <= selected.end) {
+			styles.push({ backgroundColor: 'blue' });
+		}
+		const highlighted = <SyntaxHighlight key={from} language="sql" code={segment} />;
+		segments.push(styles.length > 0 ? <Text key={from} {...Object.assign({}, ...styles)}>{highlighted}</Text> : highlighted);
+	}
+
+	return (
+		<Text>
+			{segments}
+			{cursor === text.length && <Text inverse> </Text>}
+		</Text>
+	);
+};
+
+/**
+ * The popup opens while a word is being typed, after "table.", for enum labels
+ * and sequences after an opening quote, and for join conditions and types; a
+ * bare space would otherwise list every keyword. It stays closed once the word
+ * is complete.
+ */
+function shouldShowPopup(completions: Completion[], textBeforeCursor: string): boolean {
+	const [best] = completions;
+	if (best === undefined || (best.partial !== '' && best.text.toLowerCase() === best.partial.toLowerCase())) {
+		return false;
+	}
+	if (best.partial !== '' || /[\w"`]\.$/.test(textBeforeCursor)) {
+		return true;
+	}
+	if (textBeforeCursor.endsWith("'")) {
+		return best.kind === 'value' || best.kind === 'sequence';
+	}
+	return best.kind === 'join' || best.kind === 'type';
+}
+
+// Ctrl+Space, which Ink reports as Ctrl with a backtick (NUL) or a space
+function isCtrlSpace(input: string, ctrl: boolean): boolean {
+	return ctrl && (input === '`' || input === ' ');
+}
+
+/**
+ * Multi-line SQL editor with line numbers and auto-indent. Enter inserts a line
+ * break; Ctrl+J, Ctrl+Enter or Enter after a trailing ";" submits. Shift+arrows
+ * select text. Like TextInput, Right arrow at the end accepts the ghost-text suggestion;
+ * the completion popup under the cursor offers the other candidates.
+ */
+export const SqlEditor = ({
+	value,
+	onChange,
+	onSubmit,
+	onRunAtCursor,
+	placeholder,
+	focus = true,
+	decorations = [],
+	getCompletions,
+	onHistoryPrevious,
+	onHistoryNext,
+	browsingHistory = false,
+}: SqlEditorProps) => {
+	const [cursor, setCursor] = useState(value.length);
+	// Other end of the selection, or null when nothing is selected
+	const [anchor, setAnchor] = useState<number | null>(null);
+	// Column to return to when moving through shorter lines
+	const goalColumn = useRef<number | null>(null);
+	// Last value this editor produced, to tell typing from outside changes (history, clearing)
+	const emitted = useRef(value);
+	// Completion chosen in the list, for the text before the cursor it was chosen at; while
+	// it holds the list is active and takes ↑↓, which otherwise move the cursor or recall history
+	const [picked, setPicked] = useState<{ at: string | null; index: number }>({ at: null, index: 0 });
+	// Text before the cursor when Esc closed the completions
+	const [dismissedAt, setDismissedAt] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (value !== emitted.current) {
+			emitted.current = value;
+			goalColumn.current = null;
+			setCursor(value.length);
+			setAnchor(null);
+		}
+	}, [value]);
+
+	const cursorOffset = Math.min(cursor, value.length);
+	const selection =
+		anchor !== null && anchor !== cursorOffset
+			? { start: Math.min(anchor, cursorOffset), end: Math.min(value.length, Math.max(anchor, cursorOffset)) }
+			: null;
+
+	// Completions for the word before the cursor, unless it is inside a word or Esc closed them there
+	const textBeforeCursor = value.slice(0, cursorOffset);
+	const completions =
+		getCompletions && focus && !selection && !/\w/.test(value[cursorOffset] ?? '') && dismissedAt !== textBeforeCursor
+			? getCompletions(value, cursorOffset)
+			: [];
+	// The list is active, and its selection holds, while the text before the cursor stays the same
+	const listActive = completions.length > 0 && picked.at === textBeforeCursor;
+	const showPopup = listActive || shouldShowPopup(completions, textBeforeCursor);
+	const selectedCompletion = listActive ? Math.min(picked.index, completions.length - 1) : 0;
+	// ↑↓ move through a visible list, unless they were already recalling history
+	const arrowsSelect = listActive || (showPopup && !browsingHistory);
+	const completion = completions[selectedCompletion];
+	const ghostText =
+		completion && cursorOffset === value.length && completion.text.startsWith(completion.partial)
+			? completion.text.slice(completion.partial.length)
+			: '';
+
+	const apply = (result: EditResult) => {
+		goalColumn.current = null;
+		setAnchor(null);
+		setCursor(result.cursor);
+		if (result.value !== value) {
+			emitted.current = result.value;
+			onChange(result.value);
+		}
+	};
+
+	// Edits replace the selection, if any
+	const edit = (change: (value: string, cursor: number) => EditResult) => {
+		const base = selection ? deleteRange(value, selection) : { value, cursor: cursorOffset };
+		apply(change(base.value, base.cursor));
+	};
+
+	// Move the cursor, extending the selection when Shift is held
+	const moveTo = (next: number, extend: boolean, keepColumn = false) => {
+		if (!keepColumn) goalColumn.current = null;
+		setAnchor(extend ? (anchor ?? cursorOffset) : null);
+		setCursor(next);
+	};
+
+	const acceptCompletion = (chosen: Completion) => {
+		const start = cursorOffset - chosen.partial.length;
+		apply({ value: value.slice(0, start) + chosen.text + value.slice(cursorOffset), cursor: start + chosen.text.length });
+	};
+
+	const moveLines = (delta: number, extend: boolean) => {
+		const column = goalColumn.current ?? getCursorPosition(value, cursorOffset).column;
+		const next = moveVertically(value, cursorOffset, delta, column);
+		if (next === null) {
+			if (extend) return;
+			setAnchor(null);
+			if (delta < 0) onHistoryPrevious?.();
+			else onHistoryNext?.();
+			return;
+		}
+		goalColumn.current = column;
+		moveTo(next, extend, true);
+	};
+
+	useInput(
+		(input, key) => {
+			if (key.ctrl && input === 'c') {
+				return;
+			}
+			if (key.escape) {
+				if (completion) setDismissedAt(textBeforeCursor);
+				return;
+			}
+
+			// Ctrl+Space opens the list, even where it would not open by itself
+			if (isCtrlSpace(input, key.ctrl)) {
+				setDismissedAt(null);
+				setPicked({ at: textBeforeCursor, index: selectedCompletion });
+				return;
+			}
+
+			// Ctrl+N moves into the list, even while browsing history
+			if (completions.length > 0 && ((key.ctrl && input === 'n') || (arrowsSelect && !key.shift && (key.upArrow || key.downArrow)))) {
+				const step = key.upArrow ? -1 : 1;
+				const index = (selectedCompletion + step + completions.length) % completions.length;
+				setPicked({ at: textBeforeCursor, index });
+				return;
+			}
+
+			if (showPopup && !key.shift) {
+				if (key.tab) {
+					acceptCompletion(completion);
+					return;
+				}
+			}
+
+			// Alt+Enter arrives as a bare "\r" without the return flag
+			if ((input === '\r' && !key.return) || (key.ctrl && input === 't')) {
+				onRunAtCursor?.(selection, cursorOffset);
+			} else if (input === '\n' || CTRL_ENTER_SEQUENCES.includes(input)) {
+				onSubmit(value);
+			} else if (key.return) {
+				if (!selection && shouldSubmitOnEnter(value, cursorOffset)) {
+					onSubmit(value);
+				} else {
+					edit(insertNewline);
+				}
+			} else if (key.upArrow) {
+				moveLines(-1, key.shift);
+			} else if (key.downArrow) {
+				moveLines(1, key.shift);
+			} else if (key.leftArrow) {
+				moveTo(!key.shift && selection ? selection.start : Math.max(0, cursorOffset - 1), key.shift);
+			} else if (key.rightArrow) {
+				if (ghostText && !key.shift) {
+					acceptCompletion(completion);
+				} else {
+					moveTo(!key.shift && selection ? selection.end : Math.min(value.length, cursorOffset + 1), key.shift);
+				}
+			} else if (key.home) {
+				moveTo(getLineStart(value, cursorOffset), key.shift);
+			} else if (key.end) {
+				moveTo(getLineEnd(value, cursorOffset), key.shift);
+			} else if (key.backspace || key.delete) {
+				if (selection) {
+					apply(deleteRange(value, selection));
+				} else {
+					apply(deleteBackward(value, cursorOffset));
+				}
+			} else if (key.tab) {
+				edit((text, at) => insertText(text, at, INDENT));
+			} else if (input && !key.ctrl && !key.meta) {
+				edit((text, at) => typeText(text, at, input));
+			}
+		},
+		{ isActive: focus }
+	);
+
+	const lines = value.split('\n');
+	const gutterWidth = String(lines.length).length;
+	const cursorPosition = getCursorPosition(value, cursorOffset);
+	// Line the popup opens under the start of the word being completed
+	const popupColumn = gutterWidth + 1 + cursorPosition.column - (completion?.partial.length ?? 0);
+
+	let lineStart = 0;
+	return (
+		<Box flexDirection="column">
+			{lines.map((line, idx) => {
+				const start = lineStart;
+				lineStart += line.length + 1;
+				const isCursorLine = focus && idx === cursorPosition.line;
+				const isLastLine = idx === lines.length - 1;
+				return (
+					<Box key={idx} flexDirection="column">
+						<Box>
+							<Text color={isCursorLine ? 'cyan' : undefined} dimColor={!isCursorLine}>
+								{String(idx + 1).padStart(gutterWidth)}{' '}
+							</Text>
+							{value.length === 0 && placeholder ? (
+								<Text>
+									{focus ? <Text inverse>{placeholder[0]}</Text> : <Text dimColor>{placeholder[0]}</Text>}
+									<Text dimColor>{placeholder.slice(1)}</Text>
+								</Text>
+							) : (
+								<Text>
+									<EditorLine
+										text={line}
+										start={start}
+										cursor={isCursorLine ? cursorPosition.column : null}
+										selection={selection}
+										decorations={decorations}
+									/>
+									{isLastLine && ghostText && <Text dimColor>{ghostText}</Text>}
+								</Text>
+							)}
+						</Box>
+						{isCursorLine && showPopup && (
+							<CompletionPopup completions={completions} selected={selectedCompletion} active={arrowsSelect} column={popupColumn} />
+						)}
+					</Box>
+				);
+			})}
+		</Box>
+	);
+};
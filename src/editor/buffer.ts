@@ -0,0 +1,112 @@
+/**
+ * Text and cursor operations for the multi-line editor. The cursor is a
+ * 0-indexed character offset into the text, which is split into lines on "\n".
+ */
+
+export interface CursorPosition {
+	line: number; // 0-indexed
+	column: number; // 0-indexed
+}
+
+export interface EditResult {
+	value: string;
+	cursor: number;
+}
+
+export interface TextRange {
+	start: number;
+	end: number; // Exclusive
+}
+
+export const INDENT = '  ';
+
+export function getCursorPosition(value: string, cursor: number): CursorPosition {
+	const before = value.slice(0, cursor);
+	const lineStart = before.lastIndexOf('\n') + 1;
+	return {
+		line: before.length - before.replace(/\n/g, '').length,
+		column: cursor - lineStart,
+	};
+}
+
+/**
+ * Offset of a line and column, clamped to the text: a column past the end
+ * of a shorter line lands at its end.
+ */
+export function getOffset(value: string, position: CursorPosition): number {
+	const lines = value.split('\n');
+	const line = Math.max(0, Math.min(position.line, lines.length - 1));
+	let offset = 0;
+	for (let i = 0; i < line; i++) {
+		offset += lines[i].length + 1;
+	}
+	return offset + Math.max(0, Math.min(position.column, lines[line].length));
+}
+
+export function getLineCount(value: string): number {
+	return getCursorPosition(value, value.length).line + 1;
+}
+
+export function insertText(value: string, cursor: number, text: string): EditResult {
+	// Pasted text may use \r or \r\n line endings
+	const normalized = text.replace(/\r\n?/g, '\n');
+	return {
+		value: value.slice(0, cursor) + normalized + value.slice(cursor),
+		cursor: cursor + normalized.length,
+	};
+}
+
+/**
+ * Insert typed text; a closing parenthesis typed on an indented blank line
+ * moves back one indentation level to line up with its opening line.
+ */
+export function typeText(value: string, cursor: number, text: string): EditResult {
+	const lineStart = getLineStart(value, cursor);
+	const lineBefore = value.slice(lineStart, cursor);
+	if (text === ')' && lineBefore.endsWith(INDENT) && !lineBefore.trim()) {
+		return insertText(value.slice(0, cursor - INDENT.length) + value.slice(cursor), cursor - INDENT.length, text);
+	}
+	return insertText(value, cursor, text);
+}
+
+export function deleteBackward(value: string, cursor: number): EditResult {
+	if (cursor === 0) return { value, cursor };
+	return { value: value.slice(0, cursor - 1) + value.slice(cursor), cursor: cursor - 1 };
+}
+
+export function deleteRange(value: string, range: TextRange): EditResult {
+	return { value: value.slice(0, range.start) + value.slice(range.end), cursor: range.start };
+}
+
+/**
+ * Insert a line break, carrying over the current line's indentation and
+ * indenting one level further after an opening parenthesis.
+ */
+export function insertNewline(value: string, cursor: number): EditResult {
+	const lineBefore = value.slice(getLineStart(value, cursor), cursor);
+	const indent = lineBefore.match(/^[ \t]*/)![0];
+	const extra = /\(\s*$/.test(lineBefore) ? INDENT : '';
+	return insertText(value, cursor, '\n' + indent + extra);
+}
+
+/**
+ * Move the cursor `delta` lines up (negative) or down, aiming for `column`.
+ * Returns null when that would leave the first or last line.
+ */
+export function moveVertically(value: string, cursor: number, delta: number, column: number): number | null {
+	const { line } = getCursorPosition(value, cursor);
+	const targetLine = line + delta;
+	if (targetLine < 0 || targetLine >= getLineCount(value)) {
+		return null;
+	}
+	return getOffset(value, { line: targetLine, column });
+}
+
+export function getLineStart(value: string, cursor: number): number {
+	return cursor === 0 ? 0 : value.lastIndexOf('\n', cursor - 1) + 1;
+}
+
+export function getLineEnd(value: string, cursor: number): number {
+	const end = value.indexOf('\n', cursor);
+	return end === -1 ? value.length : end;
+}
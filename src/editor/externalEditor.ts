@@ -0,0 +1,51 @@
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Saves the screen and cursor, and switches to a blank screen; leaving restores both
+const ENTER_ALTERNATE_SCREEN = '\x1b[?1049h\x1b[H\x1b[2J';
+const LEAVE_ALTERNATE_SCREEN = '\x1b[?1049l';
+
+function getEditorCommand(): string {
+	return process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+}
+
+/**
+ * Edit text in $VISUAL or $EDITOR, as psql's \e does: the text is written to a
+ * temporary .sql file, the editor takes over the terminal until it exits, and
+ * the saved file is read back. The editor command may include arguments ("code --wait").
+ */
+export function editInExternalEditor(text: string): string {
+	const editor = getEditorCommand();
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'qq-'));
+	const file = path.join(dir, 'query.sql');
+	fs.writeFileSync(file, text && !text.endsWith('\n') ? `${text}\n` : text);
+
+	// Hand the terminal over in cooked mode, on the alternate screen so the editor cannot draw over
+	// Ink's output; Ink's input handling resumes when raw mode is restored
+	const wasRaw = process.stdin.isTTY && process.stdin.isRaw;
+	const screen = process.stdout.isTTY;
+	try {
+		if (wasRaw) process.stdin.setRawMode(false);
+		if (screen) process.stdout.write(ENTER_ALTERNATE_SCREEN);
+		const result = spawnSync(`${editor} "${file}"`, { stdio: 'inherit', shell: true });
+		if (result.error) {
+			throw new Error(`Could not start editor "${editor}": ${result.error.message}`);
+		}
+		if (result.status !== 0) {
+			throw new Error(`Editor "${editor}" exited with status ${result.status}; the query was not changed`);
+		}
+		// Editors add a final newline, which is not part of the query
+		return fs.readFileSync(file, 'utf8').replace(/\r?\n$/, '');
+	} finally {
+		if (screen) {
+			// Back to the screen as Ink left it; a resize event makes Ink lay out and repaint
+			// in full, in case the terminal changed size while the editor ran
+			process.stdout.write(LEAVE_ALTERNATE_SCREEN);
+			process.stdout.emit('resize');
+		}
+		if (wasRaw) process.stdin.setRawMode(true);
+		fs.rmSync(dir, { recursive: true, force: true });
+	}
+}
@@ -0,0 +1,3 @@
+export { SqlEditor } from './SqlEditor.js';
+export type { TextRange } from './buffer.js';
+export { editInExternalEditor } from './externalEditor.js';
@@ -1,13 +1,41 @@
-import pg from 'pg';
 import { formatValue } from './types.js';
+import type { ConnectionConfig } from './connection/index.js';
+import { connectDriver, type DatabaseDriver, type DriverResult } from './drivers/index.js';
+import {
+	describeExpandedMode,
+	formatConnectionInfo,
+	isCatalogCommand,
+	parseBooleanSetting,
+	parseMetaCommand,
+	runCatalogCommand,
+	type ExpandedMode,
+	type MetaCommand,
+} from './commands/index.js';
+import {
+	bindParameters,
+	findPlaceholders,
+	inferParameterTypes,
+	maskMetaCommands,
+	placeholdersIn,
+	splitStatements,
+	uniqueParameters,
+	type ParameterValues,
+} from './sql/index.js';
 
 export interface HeadlessConfig {
-	host: string;
-	port: number;
-	database: string;
+	connection: ConnectionConfig;
 	user: string;
 	password: string;
 	query: string;
+	params: ParameterValues; // Bind parameter values by name, from --param
+	stopOnError: boolean;
+}
+
+// Changed by \x, \timing and \set as a script runs
+interface HeadlessSettings {
+	expanded: ExpandedMode;
+	timing: boolean;
+	stopOnError: boolean;
 }
 
 function escapeCSVField(value: string): string {
@@ -22,48 +50,139 @@ function formatRowAsCSV(row: Record<string, unknown>, columns: string[]): string
 	return columns.map((col) => escapeCSVField(formatValue(row[col]))).join(',');
 }
 
-function isSelectQuery(query: string): boolean {
-	const trimmed = query.trim().toUpperCase();
-	return trimmed.startsWith('SELECT') || trimmed.startsWith('WITH');
+// psql's expanded layout: a -[ RECORD n ] header, then one "column | value" line per column
+function printRecords(result: DriverResult): void {
+	const columns = result.fields.map((f) => f.name);
+	const width = Math.max(0, ...columns.map((column) => column.length));
+	result.rows.forEach((row, index) => {
+		console.log(`-[ RECORD ${index + 1} ]`);
+		for (const column of columns) {
+			console.log(`${column.padEnd(width)} | ${formatValue(row[column])}`);
+		}
+	});
+}
+
+function printResult(result: DriverResult, expanded: ExpandedMode): void {
+	if (result.fields.length > 0) {
+		// Anything that returns rows (SELECT, SHOW, EXPLAIN, RETURNING, catalog commands) is output as CSV
+		const columns = result.fields.map((f) => f.name);
+		const lines = [columns.map(escapeCSVField).join(','), ...result.rows.map((row) => formatRowAsCSV(row, columns))];
+		// \x auto: expand when a line would wrap in the terminal; piped output stays CSV
+		const tooWide = process.stdout.isTTY && lines.some((line) => line.length > process.stdout.columns);
+		if (expanded === true || (expanded === 'auto' && tooWide)) {
+			printRecords(result);
+		} else {
+			for (const line of lines) {
+				console.log(line);
+			}
+		}
+	} else {
+		// For non-SELECT queries (INSERT, UPDATE, DELETE, etc.)
+		if (result.rowCount !== null) {
+			console.log(`${result.rowCount} row(s) affected`);
+		} else {
+			console.log('Query executed successfully');
+		}
+	}
+}
+
+/**
+ * Run a backslash command from the script. Returns rows to print, a message,
+ * or null when there is nothing to show.
+ */
+async function runMetaCommand(
+	driver: DatabaseDriver,
+	command: MetaCommand,
+	settings: HeadlessSettings,
+	config: HeadlessConfig
+): Promise<DriverResult | string | null> {
+	if (isCatalogCommand(command)) {
+		return runCatalogCommand(driver, command);
+	}
+	switch (command.type) {
+		case 'expanded':
+			settings.expanded = command.enabled ?? !settings.expanded;
+			return describeExpandedMode(settings.expanded);
+		case 'timing':
+			settings.timing = command.enabled ?? !settings.timing;
+			return `Timing is ${settings.timing ? 'on' : 'off'}.`;
+		case 'conninfo':
+			return formatConnectionInfo(config.connection, config.user, driver.encrypted);
+		case 'set':
+			if (command.name !== 'ON_ERROR_STOP') {
+				throw new Error(`Unknown variable ${command.name}. Supported in headless mode: ON_ERROR_STOP`);
+			}
+			settings.stopOnError = parseBooleanSetting(command.name, command.value);
+			return null;
+		case 'connect':
+			if (command.database === null) throw new Error('\\c needs a database name in headless mode');
+			await driver.useDatabase(command.database);
+			return null;
+		case 'schema':
+			if (command.schema === null) throw new Error('\\schema needs a schema name in headless mode');
+			await driver.useSchema(command.schema);
+			return null;
+		default:
+			throw new Error(`\\${command.type} is not available in headless mode`);
+	}
 }
 
 export async function runHeadless(config: HeadlessConfig): Promise<void> {
-	const client = new pg.Client({
-		host: config.host,
-		port: config.port,
-		database: config.database,
-		user: config.user,
-		password: config.password,
-	});
+	let driver: DatabaseDriver | null = null;
 
 	try {
-		await client.connect();
+		const dialect = config.connection.driver ?? 'postgres';
+		// Backslash command arguments are patterns, not placeholders: "\dt user?"
+		const sql = maskMetaCommands(config.query, dialect);
+		const placeholders = findPlaceholders(sql, dialect);
+		const missing = uniqueParameters(placeholders).filter((placeholder) => config.params[placeholder.name] === undefined);
+		if (missing.length > 0) {
+			const labels = missing.map((placeholder) => placeholder.label).join(', ');
+			throw new Error(`No value for parameter${missing.length > 1 ? 's' : ''} ${labels}. Pass values with --param name=value`);
+		}
+		const types = inferParameterTypes(sql, placeholders, [], dialect);
+
+		driver = await connectDriver(config.connection, { user: config.user, password: config.password });
 
-		const result = await client.query(config.query);
+		// Scripts run one statement at a time, with a blank line between outputs
+		const statements = splitStatements(config.query, driver.name);
+		const settings: HeadlessSettings = { expanded: false, timing: false, stopOnError: config.stopOnError };
+		let printed = false;
+		for (const [index, statement] of statements.entries()) {
+			try {
+				const command = statement.text.startsWith('\\') ? parseMetaCommand(statement.text) : null;
+				if (command?.type === 'quit') break;
 
-		if (isSelectQuery(config.query)) {
-			// For SELECT queries, output CSV
-			if (result.fields && result.fields.length > 0) {
-				const columns = result.fields.map((f) => f.name);
-				// Print header
-				console.log(columns.map(escapeCSVField).join(','));
-				// Print rows
-				for (const row of result.rows) {
-					console.log(formatRowAsCSV(row, columns));
+				const startTime = performance.now();
+				let output: DriverResult | string | null;
+				if (command) {
+					output = await runMetaCommand(driver, command, settings, config);
+				} else {
+					const bound = bindParameters(statement.text, placeholdersIn(placeholders, statement), config.params, dialect, types);
+					output = await driver.query(bound.sql, bound.params);
 				}
-			}
-		} else {
-			// For non-SELECT queries (INSERT, UPDATE, DELETE, etc.)
-			if (result.rowCount !== null && result.rowCount !== undefined) {
-				console.log(`${result.rowCount} row(s) affected`);
-			} else {
-				console.log('Query executed successfully');
+				const elapsed = performance.now() - startTime;
+				if (output === null) continue;
+
+				if (printed) console.log('');
+				printed = true;
+				if (typeof output === 'string') {
+					console.log(output);
+				} else {
+					printResult(output, settings.expanded);
+					if (settings.timing) console.log(`Time: ${elapsed.toFixed(3)} ms`);
+				}
+			} catch (err) {
+				const where = statements.length > 1 ? ` in statement ${index + 1}` : '';
+				console.error(`Error${where}: ${(err as Error).message}`);
+				process.exitCode = 1;
+				if (settings.stopOnError) break;
 			}
 		}
 	} catch (err) {
 		console.error(`Error: ${(err as Error).message}`);
 		process.exit(1);
 	} finally {
-		await client.end();
+		await driver?.close();
 	}
 }
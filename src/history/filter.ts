@@ -0,0 +1,44 @@
+import type { HistoryEntry } from './historyFile.js';
+
+export type StatusFilter = 'all' | 'ok' | 'error';
+export type DateRange = 'all' | 'today' | 'week' | 'month';
+
+export interface HistoryFilter {
+	text: string; // Case-insensitive substring of the query
+	status: StatusFilter;
+	range: DateRange;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Earliest time a range includes, in ms; today starts at local midnight
+function rangeStart(range: DateRange, now: Date): number {
+	switch (range) {
+		case 'today':
+			return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+		case 'week':
+			return now.getTime() - 7 * DAY;
+		case 'month':
+			return now.getTime() - 30 * DAY;
+		default:
+			return -Infinity;
+	}
+}
+
+/**
+ * Indexes of the entries that pass the filter, newest first. Entries without
+ * a time (written before times were recorded) only show without a date range.
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter, now = new Date()): number[] {
+	const needle = filter.text.toLowerCase();
+	const since = rangeStart(filter.range, now);
+	const matches: number[] = [];
+	for (let i = entries.length - 1; i >= 0; i--) {
+		const entry = entries[i];
+		if (filter.status !== 'all' && entry.status !== filter.status) continue;
+		if (since > -Infinity && !(Date.parse(entry.time) >= since)) continue;
+		if (needle && !entry.query.toLowerCase().includes(needle)) continue;
+		matches.push(i);
+	}
+	return matches;
+}
@@ -0,0 +1,187 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { ConnectionConfig, DriverName } from '../connection/index.js';
+import { tokenize } from '../sql/tokenizer.js';
+
+// Entries kept per connection; older ones are dropped when the file is loaded
+export const HISTORY_LIMIT = 1000;
+
+// One run of a query, as stored in the history file
+export interface HistoryEntry {
+	query: string;
+	time: string; // ISO timestamp of when it ran
+	database?: string;
+	durationMs?: number;
+	rowCount?: number | null; // Summed over the statements of a script
+	status: 'ok' | 'error';
+	error?: string;
+	params?: Record<string, string>; // Bind parameter values by name, offered again when it is rerun
+}
+
+// CREATE ROLE ... PASSWORD '...', SET PASSWORD = '...', IDENTIFIED [WITH plugin] BY '...'
+const PASSWORD_PATTERN = /\bPASSWORD\s*(?:FOR\s+\S+\s*)?=?\s*(?:PASSWORD\s*\(\s*)?'|\bIDENTIFIED\s+(?:WITH\s+\S+\s+)?(?:BY|AS)\b/i;
+// Connection strings in literals: dblink_connect('host=db password=secret'), 'postgres://app:secret@db/app'
+const CONNECTION_STRING_PASSWORD = /\b(?:password|pwd)\s*=|\/\/[^\s/:@]+:[^\s/@]+@/i;
+// Statements whose bind values may be a secret: PASSWORD :pw, WHERE password = $1, dblink_connect(:conn)
+const SECRET_PARAMETERS = /\bPASSWORD\b|\bIDENTIFIED\b|\bdblink\w*\s*\(/i;
+
+export function getHistoryDir(): string {
+	if (process.env.QQ_HISTORY_DIR) {
+		return process.env.QQ_HISTORY_DIR;
+	}
+	const base = process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local', 'share');
+	return path.join(base, 'qq', 'history');
+}
+
+/**
+ * One file per connection: driver, host, port and database for servers, the
+ * file path for SQLite. Characters that are awkward in file names become "_".
+ */
+export function getHistoryPath(config: ConnectionConfig): string {
+	const driver = config.driver ?? 'postgres';
+	const parts = driver === 'sqlite' ? [driver, path.resolve(config.database)] : [driver, config.host, String(config.port), config.database];
+	const name = parts.join('-').replace(/[^\w.-]+/g, '_');
+	return path.join(getHistoryDir(), `${name}.jsonl`);
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every((item) => typeof item === 'string');
+}
+
+// Statements that would write a password into the history file
+export function containsPassword(query: string, dialect?: DriverName): boolean {
+	return (
+		PASSWORD_PATTERN.test(query) ||
+		// MySQL reads "..." as a string too
+		tokenize(query, dialect).some(
+			(token) => (token.type === 'string' || token.type === 'quoted') && CONNECTION_STRING_PASSWORD.test(token.text)
+		)
+	);
+}
+
+/**
+ * The queries to recall with ↑↓ and Ctrl+R: the last occurrence of each, then
+ * the newest `limit` of them.
+ */
+export function compactHistory(entries: string[], limit = HISTORY_LIMIT): string[] {
+	const seen = new Set<string>();
+	const compacted: string[] = [];
+	for (let i = entries.length - 1; i >= 0 && compacted.length < limit; i--) {
+		if (!seen.has(entries[i])) {
+			seen.add(entries[i]);
+			compacted.push(entries[i]);
+		}
+	}
+	return compacted.reverse();
+}
+
+function parseEntry(line: string): HistoryEntry | null {
+	try {
+		const entry = JSON.parse(line) as Record<string, unknown>;
+		if (typeof entry.query !== 'string' || !entry.query) return null;
+		return {
+			query: entry.query,
+			time: typeof entry.time === 'string' ? entry.time : '',
+			database: typeof entry.database === 'string' ? entry.database : undefined,
+			durationMs: typeof entry.durationMs === 'number' ? entry.durationMs : undefined,
+			rowCount: typeof entry.rowCount === 'number' || entry.rowCount === null ? entry.rowCount : undefined,
+			status: entry.status === 'error' ? 'error' : 'ok',
+			error: typeof entry.error === 'string' ? entry.error : undefined,
+			params: isStringRecord(entry.params) ? entry.params : undefined,
+		};
+	} catch {
+		// A line cut short by a crash or a concurrent write
+		return null;
+	}
+}
+
+function readEntries(file: string): HistoryEntry[] {
+	let content: string;
+	try {
+		content = fs.readFileSync(file, 'utf8');
+	} catch {
+		return [];
+	}
+	return content
+		.split('\n')
+		.filter((line) => line.trim())
+		.map(parseEntry)
+		.filter((entry): entry is HistoryEntry => entry !== null);
+}
+
+function writeEntries(file: string, entries: HistoryEntry[]): void {
+	fs.writeFileSync(file, entries.map((entry) => JSON.stringify(entry) + '\n').join(''), { mode: 0o600 });
+}
+
+/**
+ * Read the history of a connection, oldest first. The file holds one JSON
+ * object per run; lines that do not parse are skipped. Once it holds more
+ * than HISTORY_LIMIT runs, it is rewritten with the newest ones.
+ */
+export function loadHistory(config: ConnectionConfig): HistoryEntry[] {
+	const file = getHistoryPath(config);
+	const entries = readEntries(file);
+	if (entries.length <= HISTORY_LIMIT) {
+		return entries;
+	}
+	const kept = entries.slice(-HISTORY_LIMIT);
+	try {
+		writeEntries(file, kept);
+	} catch {
+		// Trimming again next time is fine
+	}
+	return kept;
+}
+
+// Bind values that would write a password into the history file
+function containsSecretParameters(query: string, params: Record<string, string>): boolean {
+	return SECRET_PARAMETERS.test(query) || Object.values(params).some((value) => CONNECTION_STRING_PASSWORD.test(value));
+}
+
+/**
+ * Append a run to the connection's history file. Queries that set a
+ * password are never written, and bind values that may hold one are left
+ * out. Failures are ignored: history is a convenience.
+ */
+export function appendHistory(config: ConnectionConfig, entry: HistoryEntry): void {
+	if (containsPassword(entry.query, config.driver)) return;
+	const { params, ...rest } = entry;
+	const stored = params && containsSecretParameters(entry.query, params) ? rest : entry;
+	const file = getHistoryPath(config);
+	try {
+		fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+		fs.appendFileSync(file, JSON.stringify(stored) + '\n', { mode: 0o600 });
+	} catch {
+		// Read-only home directory or similar
+	}
+}
+
+/**
+ * Remove one run from the history file. The file is read again first, so
+ * runs another session appended meanwhile are kept.
+ */
+export function deleteHistoryEntry(config: ConnectionConfig, entry: HistoryEntry): void {
+	const file = getHistoryPath(config);
+	const entries = readEntries(file);
+	const index = entries.findIndex((candidate) => candidate.time === entry.time && candidate.query === entry.query);
+	if (index === -1) return;
+	entries.splice(index, 1);
+	try {
+		writeEntries(file, entries);
+	} catch {
+		// It stays in the file, but is gone from this session
+	}
+}
+
+/**
+ * Indexes of the entries containing `term` (case-insensitive), newest first.
+ */
+export function searchHistory(entries: string[], term: string): number[] {
+	const needle = term.toLowerCase();
+	const matches: number[] = [];
+	for (let i = entries.length - 1; i >= 0; i--) {
+		if (entries[i].toLowerCase().includes(needle)) matches.push(i);
+	}
+	return matches;
+}
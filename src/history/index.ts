@@ -0,0 +1,13 @@
+export {
+	HISTORY_LIMIT,
+	getHistoryDir,
+	getHistoryPath,
+	containsPassword,
+	compactHistory,
+	loadHistory,
+	appendHistory,
+	deleteHistoryEntry,
+	searchHistory,
+	type HistoryEntry,
+} from './historyFile.js';
+export { filterHistory, type DateRange, type HistoryFilter, type StatusFilter } from './filter.js';
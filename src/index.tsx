@@ -1,162 +1,497 @@
 #!/usr/bin/env node
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { render, Box, Text, useApp, useInput } from 'ink';
 import TextInput, { type Decoration } from 'ink-mini-code-editor';
-import pg from 'pg';
-import { QueryResults } from './components/index.js';
-import { parseQueryResult, type QueryResultData } from './types.js';
+import {
+	HistoryBrowser,
+	HistorySearch,
+	ParameterForm,
+	Picker,
+	QueryResults,
+	SaveQueryForm,
+	SavedQueryPicker,
+	ScriptResults,
+	type SaveQueryValues,
+} from './components/index.js';
+import { parseQueryResult, type QueryResultData, type StatementResult } from './types.js';
 import { TEST_QUERY_RESULT } from './testdata.js';
-import { loadSchema, createEmptySchema, getSuggestion, type DatabaseSchema } from './autocomplete/index.js';
+import { loadSchema, createEmptySchema, getCompletions, type DatabaseSchema } from './autocomplete/index.js';
 import { runHeadless } from './headless.js';
 import { validateColumns } from './validation/index.js';
+import { parseSslMode, parseSshDestination, parseSchemaList, formatSshDestination, resolveConnection, resolvePassword, runConnectionsCommand, formatAddress, formatTarget, parseAddress, type ConnectionConfig, type SshConfig, type SslConfig } from './connection/index.js';
+import { SqlEditor, editInExternalEditor, type TextRange } from './editor/index.js';
+import {
+	parseMetaCommand,
+	parseBooleanSetting,
+	changesCurrentSchema,
+	isCatalogCommand,
+	runCatalogCommand,
+	formatConnectionInfo,
+	describeExpandedMode,
+	type CatalogCommand,
+	type ExpandedMode,
+	type MetaCommand,
+} from './commands/index.js';
+import {
+	bindParameters,
+	findPlaceholders,
+	findStatementAt,
+	formatSql,
+	inferParameterTypes,
+	maskMetaCommands,
+	parseKeywordCase,
+	placeholdersIn,
+	runFormatCommand,
+	splitStatements,
+	uniqueParameters,
+	type BoundQuery,
+	type KeywordCase,
+	type ParameterValues,
+	type Placeholder,
+	type SqlStatement,
+} from './sql/index.js';
+import { classifyConnectError, connectDriver, requiresCredentials, type ConnectErrorKind, type DatabaseDriver } from './drivers/index.js';
+import { findSavedQuery, loadSavedQueries, parseTags, saveQuery, type SavedQuery } from './saved/index.js';
+import { HISTORY_LIMIT, appendHistory, compactHistory, deleteHistoryEntry, getHistoryPath, loadHistory, type HistoryEntry } from './history/index.js';
 
-type AppState = 'username' | 'password' | 'connecting' | 'connected' | 'executing' | 'results' | 'error';
+type AppState =
+	| 'username'
+	| 'password'
+	| 'connecting'
+	| 'connected'
+	| 'executing'
+	| 'results'
+	| 'script-results'
+	| 'error'
+	| 'edit-host'
+	| 'edit-database'
+	| 'pick-database'
+	| 'pick-schema'
+	| 'bind-parameters'
+	| 'search-history'
+	| 'browse-history'
+	| 'save-query'
+	| 'pick-saved';
 
-interface ConnectionConfig {
-	host: string;
-	port: number;
-	database: string;
-}
+// How a run went, recorded with it in the history
+type HistoryOutcome = Pick<HistoryEntry, 'status' | 'durationMs' | 'rowCount' | 'error' | 'params'>;
 
 interface QueryError {
 	message: string;
-	position?: number; // 1-indexed character position from PostgreSQL
+	position?: number; // 1-indexed character position in the query
 	hint?: string;
 	severity?: 'ERROR' | 'WARNING' | 'NOTICE';
 	source: 'client' | 'server';
 }
 
-interface AppProps {
-	config: ConnectionConfig;
+// Server error positions count from the start of the statement; the editor counts from the start of the script
+function shiftPosition(position: number | undefined, statement: SqlStatement): number | undefined {
+	return position === undefined ? undefined : position + statement.start;
 }
 
-function parseJdbcUrl(url: string): ConnectionConfig {
-	// Parse jdbc:postgresql://host:port/database
-	const match = url.match(/^jdbc:postgresql:\/\/([^:]+):(\d+)\/(.+)$/);
-	if (!match) {
-		throw new Error(`Invalid JDBC URL format. Expected: jdbc:postgresql://host:port/database`);
-	}
+// Time and rows of the statements of a script that ran, for its history entry
+function scriptTotals(outcomes: StatementResult[]): Pick<HistoryEntry, 'durationMs' | 'rowCount'> {
+	const results = outcomes.flatMap((outcome) => (outcome.result ? [outcome.result] : []));
 	return {
-		host: match[1],
-		port: parseInt(match[2], 10),
-		database: match[3],
+		durationMs: results.reduce((total, result) => total + result.executionTime, 0),
+		rowCount: results.reduce((total, result) => total + result.rowCount, 0),
 	};
 }
 
-const App = ({ config }: AppProps) => {
+// A statement with its placeholders rewritten for the driver
+interface BoundStatement extends SqlStatement {
+	bound: BoundQuery;
+}
+
+// A query waiting for the values of its bind parameters
+interface ParameterPrompt {
+	sql: string;
+	offset: number;
+	parameters: Placeholder[]; // One per name
+	types: Record<string, string>;
+	initialValues: ParameterValues; // From the last run of the query, or the history entry being rerun
+}
+
+interface ConnectError {
+	kind: ConnectErrorKind;
+	message: string;
+}
+
+const CONNECT_ERROR_TITLES: Record<ConnectErrorKind, string> = {
+	auth: 'Authentication failed',
+	database: 'Database not found',
+	unreachable: 'Server unreachable',
+	timeout: 'Connection timed out',
+	other: 'Connection failed',
+};
+
+interface AppProps {
+	config: ConnectionConfig;
+	stopOnError: boolean; // Initial ON_ERROR_STOP for multi-statement scripts
+}
+
+// Label from a connection profile, e.g. [PROD]
+const ConnectionLabel = ({ config }: { config: ConnectionConfig }) => {
+	if (!config.label) return null;
+	return <Text bold color={config.color}>[{config.label}] </Text>;
+};
+
+// Connection address shown on the login and connecting screens
+const ConnectionTarget = ({ config }: { config: ConnectionConfig }) => (
+	<Text>
+		<ConnectionLabel config={config} />
+		<Text dimColor>{formatTarget(config)}</Text>
+		{config.ssh && <Text dimColor> via ssh {formatSshDestination(config.ssh)}</Text>}
+	</Text>
+);
+
+interface Disconnection {
+	reason: string;
+	attempt: number; // Reconnect attempts made so far
+}
+
+// Exponential backoff between reconnect attempts: 1s, 2s, 4s, ... up to 30s
+function getReconnectDelay(attempt: number): number {
+	return Math.min(1000 * 2 ** attempt, 30000);
+}
+
+interface ConnectedHeaderProps {
+	config: ConnectionConfig;
+	username: string;
+	encrypted?: boolean; // Undefined for local databases
+	schemaName?: string | null; // Active schema, where the database has schemas
+	disconnected?: Disconnection | null;
+}
+
+const ConnectedHeader = ({ config, username, encrypted, schemaName, disconnected }: ConnectedHeaderProps) => (
+	<Box flexDirection="column">
+		<Box>
+			<ConnectionLabel config={config} />
+			{disconnected ? <Text bold color="red">Disconnected</Text> : <Text bold color="green">Connected</Text>}
+			<Text dimColor> {username ? `${username}@` : ''}{formatTarget(config)} </Text>
+			{schemaName && <Text dimColor>schema <Text color="cyan">{schemaName}</Text> </Text>}
+			{encrypted === true && <Text color="green">[TLS]</Text>}
+			{encrypted === false && <Text color="yellow">[unencrypted]</Text>}
+		</Box>
+		{disconnected && (
+			<Text color="red">
+				{disconnected.reason} - reconnecting in {getReconnectDelay(disconnected.attempt) / 1000}s
+				{disconnected.attempt > 0 ? ` (attempt ${disconnected.attempt + 1})` : ''}...
+			</Text>
+		)}
+	</Box>
+);
+
+interface InitialLogin {
+	state: AppState;
+	password: string;
+}
+
+// Skip the prompts for credentials supplied by the connection string, profile, PGPASSWORD or ~/.pgpass
+function getInitialLogin(config: ConnectionConfig): InitialLogin {
+	if (!requiresCredentials(config)) return { state: 'connecting', password: '' };
+	if (!config.user) return { state: 'username', password: '' };
+	const password = resolvePassword(config, config.user);
+	if (password !== undefined) return { state: 'connecting', password };
+	return { state: 'password', password: '' };
+}
+
+const App = ({ config, stopOnError: initialStopOnError }: AppProps) => {
 	const { exit } = useApp();
-	const [state, setState] = useState<AppState>('username');
-	const [username, setUsername] = useState('');
-	const [password, setPassword] = useState('');
-	const [error, setError] = useState<string>('');
-	const [client, setClient] = useState<pg.Client | null>(null);
+	// Connection details, which can be corrected after a failed connection attempt
+	const [target, setTarget] = useState(config);
+	const [initialLogin] = useState(() => getInitialLogin(target));
+	const [state, setState] = useState<AppState>(initialLogin.state);
+	const [username, setUsername] = useState(target.user ?? '');
+	const [password, setPassword] = useState(initialLogin.password);
+	const [connectError, setConnectError] = useState<ConnectError | null>(null);
+	// After a failed login, always ask for the password rather than reusing a stored one
+	const [authFailed, setAuthFailed] = useState(false);
+	// Host or database being corrected after a failed connection attempt
+	const [editValue, setEditValue] = useState('');
+	const [editError, setEditError] = useState('');
+	const [driver, setDriver] = useState<DatabaseDriver | null>(null);
+	// Mirrors driver so the Ctrl+C handler can close it (and any SSH tunnel) on exit
+	const driverRef = useRef<DatabaseDriver | null>(null);
+	const [disconnected, setDisconnected] = useState<Disconnection | null>(null);
+	// A query that failed because the connection dropped, offered for a rerun once reconnected
+	const [rerunQuery, setRerunQuery] = useState<string | null>(null);
+	const showRerunPrompt = rerunQuery !== null && !disconnected;
 	const [query, setQuery] = useState('');
 	const [results, setResults] = useState<QueryResultData | null>(null);
+	const [scriptResults, setScriptResults] = useState<StatementResult[] | null>(null);
+	const [stopOnError, setStopOnError] = useState(initialStopOnError);
+	// Set by Esc so a running script stops even when continuing on errors
+	const cancelRequested = useRef(false);
+	// Keyword case used by Ctrl+F formatting, set with \set KEYWORD_CASE
+	const [keywordCase, setKeywordCase] = useState<KeywordCase>('upper');
+	const [parameterPrompt, setParameterPrompt] = useState<ParameterPrompt | null>(null);
 	const [queryErrors, setQueryErrors] = useState<QueryError[]>([]);
 	const [schema, setSchema] = useState<DatabaseSchema | null>(null);
+	// Schema unqualified names resolve to, shown in the header (Postgres search_path)
+	const [activeSchema, setActiveSchema] = useState<string | null>(null);
+	// Databases or schemas offered by \c or \schema without a name
+	const [pickerItems, setPickerItems] = useState<string[]>([]);
+	const [busyMessage, setBusyMessage] = useState('Executing query...');
+	// Display settings from \x and \timing
+	const [expanded, setExpanded] = useState<ExpandedMode>(false);
+	const [timing, setTiming] = useState(true);
+	// Saved query library: the list shown by the picker, and the entry loaded into the editor, which Ctrl+S updates
+	const [savedQueries, setSavedQueries] = useState<SavedQuery[]>([]);
+	const [loadedSaved, setLoadedSaved] = useState<SavedQuery | null>(null);
+	const [saveError, setSaveError] = useState<string | null>(null);
+	// Reply to a meta-command such as \x or \conninfo, shown under the editor
+	const [notice, setNotice] = useState<string | null>(null);
 
-	// Query history state
-	const [history, setHistory] = useState<string[]>([]);
+	// Every run of a query, saved per connection; ↑↓ and Ctrl+R recall each query once
+	const [historyEntries, setHistoryEntries] = useState<HistoryEntry[]>(() => loadHistory(config));
+	const history = useMemo(() => compactHistory(historyEntries.map((entry) => entry.query)), [historyEntries]);
 	const [historyIndex, setHistoryIndex] = useState(-1); // -1 means "new query" mode
 	const [draft, setDraft] = useState(''); // Stores current input when navigating history
 
+	// \c, USE and a changed host or database switch to that connection's history
+	const historyPath = getHistoryPath(target);
+	const loadedHistoryPath = useRef(historyPath);
+	useEffect(() => {
+		if (loadedHistoryPath.current === historyPath) return;
+		loadedHistoryPath.current = historyPath;
+		setHistoryEntries(loadHistory(target));
+		setHistoryIndex(-1);
+	}, [historyPath]);
+
+	const quit = () => {
+		driverRef.current?.close().catch(() => {});
+		exit();
+	};
+
 	useInput((input, key) => {
 		if (key.ctrl && input === 'c') {
-			if (client) {
-				client.end();
+			quit();
+		}
+
+		if (state === 'connected' && showRerunPrompt) {
+			if (input === 'y' || input === 'Y') {
+				setRerunQuery(null);
+				executeQuery(rerunQuery);
+			} else if (input === 'n' || input === 'N' || key.escape) {
+				setRerunQuery(null);
 			}
-			exit();
+			return;
 		}
 
-		// History navigation only when in connected state (query editor active)
-		if (state === 'connected' && history.length > 0) {
-			if (key.upArrow) {
-				if (historyIndex === -1) {
-					// Starting to navigate history - save current query as draft
-					setDraft(query);
-					// Go to most recent history item
-					setHistoryIndex(history.length - 1);
-					setQuery(history[history.length - 1]);
-				} else if (historyIndex > 0) {
-					// Go to older history item
-					setHistoryIndex(historyIndex - 1);
-					setQuery(history[historyIndex - 1]);
-				}
+		if (state === 'error') {
+			if (input === 'r') {
+				setState('connecting');
+			} else if (input === 'h' && target.driver !== 'sqlite') {
+				setEditValue(formatAddress(target));
+				setEditError('');
+				setState('edit-host');
+			} else if (input === 'd') {
+				setEditValue(target.database);
+				setEditError('');
+				setState('edit-database');
 			}
+			return;
+		}
 
-			if (key.downArrow) {
-				if (historyIndex !== -1) {
-					if (historyIndex < history.length - 1) {
-						// Go to newer history item
-						setHistoryIndex(historyIndex + 1);
-						setQuery(history[historyIndex + 1]);
-					} else {
-						// Back to draft (new query mode)
-						setHistoryIndex(-1);
-						setQuery(draft);
-					}
-				}
+		if ((state === 'edit-host' || state === 'edit-database') && key.escape) {
+			setState('error');
+			return;
+		}
+
+		if (state === 'connected' && key.ctrl && input === 'e') {
+			editQuery(query);
+			return;
+		}
+
+		if (state === 'connected' && key.ctrl && input === 'r') {
+			setState('search-history');
+			return;
+		}
+
+		if (state === 'connected' && key.ctrl && input === 'o') {
+			setState('browse-history');
+			return;
+		}
+
+		if (state === 'connected' && key.ctrl && input === 's') {
+			if (!query.trim()) {
+				setQueryErrors([{ message: 'Nothing to save: the editor is empty', severity: 'ERROR', source: 'server' }]);
+				return;
 			}
+			setSaveError(null);
+			setState('save-query');
+			return;
+		}
+
+		if (state === 'connected' && key.ctrl && input === 'p') {
+			openSavedQueries();
+			return;
+		}
+
+		if (state === 'connected' && key.ctrl && input === 'f') {
+			setQuery(formatSql(query, { keywordCase, dialect: driver?.name }));
+			return;
+		}
+
+		if (state === 'executing' && key.escape) {
+			cancelRequested.current = true;
+			driver?.cancel().catch(() => {});
 		}
 	});
 
+	// The editor calls these for Up on its first line and Down on its last line
+	const handleHistoryPrevious = () => {
+		if (history.length === 0) return;
+		if (historyIndex === -1) {
+			// Starting to navigate history - save current query as draft
+			setDraft(query);
+			// Go to most recent history item
+			setHistoryIndex(history.length - 1);
+			setQuery(history[history.length - 1]);
+		} else if (historyIndex > 0) {
+			// Go to older history item
+			setHistoryIndex(historyIndex - 1);
+			setQuery(history[historyIndex - 1]);
+		}
+	};
+
+	const handleHistoryNext = () => {
+		if (historyIndex === -1) return;
+		if (historyIndex < history.length - 1) {
+			// Go to newer history item
+			setHistoryIndex(historyIndex + 1);
+			setQuery(history[historyIndex + 1]);
+		} else {
+			// Back to draft (new query mode)
+			setHistoryIndex(-1);
+			setQuery(draft);
+		}
+	};
+
 	const handleUsernameSubmit = () => {
-		setState('password');
+		// Only prompt for a password when none is configured for this user
+		const knownPassword = authFailed ? undefined : resolvePassword(target, username);
+		if (knownPassword !== undefined) {
+			setPassword(knownPassword);
+			setState('connecting');
+		} else {
+			setState('password');
+		}
 	};
 
 	const handlePasswordSubmit = () => {
 		setState('connecting');
 	};
 
+	const handleHostSubmit = () => {
+		try {
+			const { host, port } = parseAddress(editValue);
+			if (!host) {
+				setEditError('Enter a host name, optionally with a port (db.example.com:5432)');
+				return;
+			}
+			setTarget({ ...target, host, port: port ?? target.port });
+			setState('connecting');
+		} catch (err) {
+			setEditError((err as Error).message);
+		}
+	};
+
+	const handleDatabaseSubmit = () => {
+		if (!editValue.trim() && target.driver !== 'mysql') {
+			setEditError('Enter a database name');
+			return;
+		}
+		setTarget({ ...target, database: editValue.trim() });
+		setState('connecting');
+	};
+
 	useEffect(() => {
 		if (state !== 'connecting') return;
 
 		let isCancelled = false;
 
-		const newClient = new pg.Client({
-			host: config.host,
-			port: config.port,
-			database: config.database,
-			user: username,
-			password: password,
-		});
-
-		newClient
-			.connect()
-			.then(() => {
+		connectDriver(target, { user: username, password })
+			.then((connected) => {
 				if (!isCancelled) {
-					setClient(newClient);
+					driverRef.current = connected;
+					setDriver(connected);
+					setConnectError(null);
 					setState('connected');
 				} else {
 					// Connection completed but we've moved on, close it
-					newClient.end().catch(() => {});
+					connected.close().catch(() => {});
 				}
 			})
 			.catch((err) => {
-				if (!isCancelled) {
-					setError(err.message);
+				if (isCancelled) return;
+				const kind = classifyConnectError(err);
+				setConnectError({ kind, message: err.message });
+				if (kind === 'auth' && requiresCredentials(target)) {
+					// Back to the prompts, keeping the username
+					setPassword('');
+					setAuthFailed(true);
+					setState('username');
+				} else {
 					setState('error');
 				}
 			});
 
 		return () => {
 			isCancelled = true;
-			// Don't close newClient here - if connection succeeds,
+			// Don't close the driver here - if connection succeeds,
 			// it will be stored in state and closed on app exit
 		};
-	}, [state, config, username, password]);
+	}, [state, target, username, password]);
+
+	// Watch for the connection dropping (server restart, idle timeout, network loss)
+	useEffect(() => {
+		if (!driver) return;
+		return driver.onDisconnect((err) => setDisconnected({ reason: err.message, attempt: 0 }));
+	}, [driver]);
+
+	// Reconnect with backoff using the credentials already entered
+	useEffect(() => {
+		if (!driver || !disconnected) return;
+
+		let isCancelled = false;
+		const timer = setTimeout(() => {
+			driver
+				.reconnect()
+				.then(() => {
+					if (!isCancelled) setDisconnected(null);
+				})
+				.catch((err) => {
+					if (!isCancelled) setDisconnected({ reason: err.message, attempt: disconnected.attempt + 1 });
+				});
+		}, getReconnectDelay(disconnected.attempt));
+
+		return () => {
+			isCancelled = true;
+			clearTimeout(timer);
+		};
+	}, [driver, disconnected]);
 
-	// Load schema after connection for autocomplete
+	// Load schema after connection for autocomplete, and again after switching database or schema
 	useEffect(() => {
-		if (state === 'connected' && client && !schema) {
-			loadSchema(client)
+		if (state === 'connected' && driver && !schema) {
+			driver
+				.currentSchema()
+				.then((current) => {
+					setActiveSchema(current);
+					// MySQL schemas are databases, so USE also changes the database shown in the header
+					if (driver.name === 'mysql') setTarget((previous) => ({ ...previous, database: current ?? '' }));
+				})
+				.catch(() => setActiveSchema(null));
+			loadSchema(driver, target.schemas)
 				.then(setSchema)
 				.catch(() => {
 					// Graceful degradation: use empty schema with keywords/functions
 					setSchema(createEmptySchema());
 				});
 		}
-	}, [state, client, schema]);
+	}, [state, driver, schema, target.schemas]);
 
 	// Client-side column validation errors
 	const clientValidationErrors = useMemo((): QueryError[] => {
@@ -166,7 +501,7 @@ const App = ({ config }: AppProps) => {
 			message: err.message,
 			position: err.position + 1, // Convert to 1-indexed
 			hint: err.hint,
-			severity: 'ERROR',
+			severity: err.severity === 'warning' ? 'WARNING' : 'ERROR',
 			source: 'client' as const,
 		}));
 	}, [query, schema]);
@@ -184,55 +519,318 @@ const App = ({ config }: AppProps) => {
 	const visibleErrors = displayableErrors.slice(0, MAX_VISIBLE_ERRORS);
 	const hiddenErrorCount = displayableErrors.length - MAX_VISIBLE_ERRORS;
 
-	const handleQuerySubmit = async () => {
-		if (!client || !query.trim()) return;
+	const addToHistory = (query: string, outcome: HistoryOutcome = { status: 'ok' }) => {
+		const entry: HistoryEntry = { query, time: new Date().toISOString(), database: target.database, ...outcome };
+		if (entry.durationMs !== undefined) entry.durationMs = Math.round(entry.durationMs * 10) / 10;
+		appendHistory(target, entry);
+		setHistoryEntries((prev) => [...prev, entry].slice(-HISTORY_LIMIT));
+
+		// Reset history navigation state
+		setHistoryIndex(-1);
+		setDraft('');
+	};
+
+	// Switch database or schema for \c, \schema and the pickers
+	const switchTo = async (kind: 'database' | 'schema', name: string) => {
+		if (!driver) return;
+		setBusyMessage(`Switching to ${kind} ${name}...`);
+		setState('executing');
+		try {
+			if (kind === 'database') {
+				await driver.useDatabase(name);
+				setTarget((previous) => ({ ...previous, database: name }));
+			} else {
+				await driver.useSchema(name);
+			}
+			// Reload autocomplete for the new database or search path
+			setSchema(null);
+		} catch (err) {
+			const { connectionLost, ...switchError } = driver.describeError(err);
+			setQueryErrors([{ ...switchError, position: undefined, source: 'server' }]);
+		}
+		setState('connected');
+	};
+
+	// Without a name, \c and \schema open a picker
+	const openPicker = async (kind: 'database' | 'schema') => {
+		if (!driver) return;
+		setBusyMessage(`Loading ${kind === 'database' ? 'databases' : 'schemas'}...`);
+		setState('executing');
+		try {
+			setPickerItems(kind === 'database' ? await driver.listDatabases() : await driver.listSchemas());
+			setState(kind === 'database' ? 'pick-database' : 'pick-schema');
+		} catch (err) {
+			setQueryErrors([{ message: (err as Error).message, source: 'server' }]);
+			setState('connected');
+		}
+	};
+
+	// Ctrl+E, \e and Ctrl+X in the history and saved query lists: edit in $VISUAL or $EDITOR. Like psql, a query saved with a trailing ";" runs right away
+	const editQuery = (text: string) => {
+		try {
+			const edited = editInExternalEditor(text);
+			setQuery(edited);
+			setQueryErrors([]);
+			if (edited.trim().endsWith(';')) {
+				executeQuery(edited);
+			}
+		} catch (err) {
+			setQueryErrors([{ message: (err as Error).message, severity: 'ERROR', source: 'server' }]);
+		}
+	};
+
+	const openSavedQueries = () => {
+		setSavedQueries(loadSavedQueries());
+		setState('pick-saved');
+	};
+
+	const handleSaveQuery = (values: SaveQueryValues) => {
+		const saved: SavedQuery = {
+			name: values.name.trim(),
+			description: values.description.trim(),
+			tags: parseTags(values.tags),
+			sql: query.trim(),
+		};
+		try {
+			saveQuery(saved);
+		} catch (err) {
+			setSaveError((err as Error).message);
+			return;
+		}
+		setLoadedSaved(saved);
+		setNotice(`Saved as ${saved.name}.`);
+		setState('connected');
+	};
+
+	// \d, \dt, \dn, ... show their rows like a query result
+	const runCatalog = async (command: CatalogCommand) => {
+		if (!driver) return;
+		setBusyMessage('Executing query...');
+		setState('executing');
+		const startTime = performance.now();
+		try {
+			const result = await runCatalogCommand(driver, command);
+			setResults(parseQueryResult(result, performance.now() - startTime));
+			setState('results');
+		} catch (err) {
+			setState('connected');
+			throw new Error(driver.describeError(err).message);
+		}
+	};
+
+	const runMetaCommand = async (command: MetaCommand) => {
+		if (isCatalogCommand(command)) {
+			await runCatalog(command);
+			return;
+		}
+		if (command.type === 'expanded') {
+			const mode = command.enabled ?? !expanded;
+			setExpanded(mode);
+			setNotice(describeExpandedMode(mode));
+			return;
+		}
+		if (command.type === 'timing') {
+			const enabled = command.enabled ?? !timing;
+			setTiming(enabled);
+			setNotice(`Timing is ${enabled ? 'on' : 'off'}.`);
+			return;
+		}
+		if (command.type === 'conninfo') {
+			setNotice(formatConnectionInfo(target, username, driver?.encrypted));
+			return;
+		}
+		if (command.type === 'quit') {
+			quit();
+			return;
+		}
+		if (command.type === 'history') {
+			setState('browse-history');
+			return;
+		}
+		if (command.type === 'saved') {
+			openSavedQueries();
+			return;
+		}
+		if (command.type === 'edit') {
+			// As in psql, \e on its own edits the last query run, skipping \e, \x and other commands
+			editQuery([...history].reverse().find((query) => !query.trimStart().startsWith('\\')) ?? '');
+			return;
+		}
+		if (command.type === 'set') {
+			if (command.name === 'ON_ERROR_STOP') {
+				setStopOnError(parseBooleanSetting(command.name, command.value));
+			} else if (command.name === 'KEYWORD_CASE') {
+				setKeywordCase(parseKeywordCase(command.value));
+			} else {
+				throw new Error(`Unknown variable ${command.name}. Supported: ON_ERROR_STOP, KEYWORD_CASE`);
+			}
+			return;
+		}
+		const kind = command.type === 'connect' ? 'database' : 'schema';
+		const name = command.type === 'connect' ? command.database : command.schema;
+		await (name === null ? openPicker(kind) : switchTo(kind, name));
+	};
 
-		const executedQuery = query.trim();
+	// Bind values of the last run of a query that had them, to offer again
+	const rememberedParameters = (query: string): ParameterValues => {
+		for (let i = historyEntries.length - 1; i >= 0; i--) {
+			const entry = historyEntries[i];
+			if (entry.query === query && entry.params) return entry.params;
+		}
+		return {};
+	};
+
+	// `offset` is where sql starts in the editor, when running only part of it.
+	// Queries with placeholders first prompt for their values, prefilled with `remembered`
+	// or those of the last run, then run again with `values`
+	const executeQuery = async (sql: string, offset = 0, values?: ParameterValues, remembered?: ParameterValues) => {
+		if (!driver || !sql.trim() || disconnected) return;
+
+		const executedQuery = sql.trim();
 		setQueryErrors([]);
+		setNotice(null);
+
+		try {
+			// Backslash commands in a script run as statements of it
+			const command = splitStatements(sql, driver.name).length > 1 ? null : parseMetaCommand(executedQuery);
+			if (command) {
+				setQuery('');
+				await runMetaCommand(command);
+				addToHistory(executedQuery);
+				return;
+			}
+		} catch (err) {
+			addToHistory(executedQuery, { status: 'error', error: (err as Error).message });
+			setQueryErrors([{ message: (err as Error).message, severity: 'ERROR', source: 'server' }]);
+			return;
+		}
+
+		// Backslash command arguments are patterns, not placeholders: "\dt user?"
+		const placeholders = findPlaceholders(maskMetaCommands(sql, driver.name), driver.name);
+		const types = inferParameterTypes(sql, placeholders, schema?.tables ?? [], driver.name);
+		if (placeholders.length > 0 && !values) {
+			const initialValues = remembered ?? rememberedParameters(executedQuery);
+			setParameterPrompt({ sql, offset, parameters: uniqueParameters(placeholders), types, initialValues });
+			setState('bind-parameters');
+			return;
+		}
+
+		// Statement offsets are shifted into editor coordinates, so error positions map back onto the right token
+		const statements = splitStatements(sql, driver.name).map((statement) => ({
+			...statement,
+			start: statement.start + offset,
+			end: statement.end + offset,
+			bound: bindParameters(statement.text, placeholdersIn(placeholders, statement), values ?? {}, driver.name, types),
+		}));
+		if (statements.length > 1) {
+			await runScript(executedQuery, statements, values);
+			return;
+		}
+		const [statement] = statements;
+		if (!statement) return;
+
+		setBusyMessage('Executing query...');
 		setState('executing');
 
 		const startTime = performance.now();
 		try {
-			const result = await client.query(executedQuery);
+			const result = await driver.query(statement.bound.sql, statement.bound.params);
 			const executionTime = performance.now() - startTime;
 			const parsed = parseQueryResult(result, executionTime);
 			setResults(parsed);
 			setState('results');
+			addToHistory(executedQuery, { status: 'ok', durationMs: executionTime, rowCount: parsed.rowCount, params: values });
 
-			// Add to history if it's not a duplicate of the last entry
-			setHistory((prev) => {
-				if (prev.length === 0 || prev[prev.length - 1] !== executedQuery) {
-					return [...prev, executedQuery];
-				}
-				return prev;
-			});
-
-			// Reset history navigation state
-			setHistoryIndex(-1);
-			setDraft('');
+			if (changesCurrentSchema(statement.text)) {
+				setSchema(null);
+			}
 		} catch (err) {
-			const pgError = err as {
-				message: string;
-				position?: string;
-				hint?: string;
-				severity?: string;
-			};
-
-			setQueryErrors([
-				{
-					message: pgError.message,
-					position: pgError.position ? parseInt(pgError.position, 10) : undefined,
-					hint: pgError.hint,
-					severity: (pgError.severity as QueryError['severity']) || 'ERROR',
-					source: 'server',
-				},
-			]);
+			const { connectionLost, ...queryError } = driver.describeError(err);
+			addToHistory(executedQuery, {
+				status: 'error',
+				durationMs: performance.now() - startTime,
+				error: queryError.message,
+				params: values,
+			});
+			if (connectionLost) {
+				// Not the query's fault: reconnect, then offer to run it again
+				setRerunQuery(executedQuery);
+				setDisconnected((current) => current ?? { reason: queryError.message, attempt: 0 });
+			} else {
+				setQueryErrors([{ ...queryError, position: shiftPosition(queryError.position, statement), source: 'server' }]);
+			}
 			setState('connected');
 		}
 	};
 
+	// Only catalog commands can be part of a script, since the others change what is on screen
+	const runScriptCommand = async (text: string) => {
+		const command = parseMetaCommand(text);
+		if (!driver || !command || !isCatalogCommand(command)) {
+			throw new Error(`${text.split(/\s/)[0]} cannot be used in a script. Run it on its own`);
+		}
+		return runCatalogCommand(driver, command);
+	};
+
+	// Run statements one at a time, stopping at the first failure when ON_ERROR_STOP is on
+	const runScript = async (script: string, statements: BoundStatement[], params?: ParameterValues) => {
+		if (!driver) return;
+
+		const outcomes: StatementResult[] = statements.map((statement) => ({ sql: statement.text, status: 'skipped' }));
+		let firstError: QueryError | null = null;
+		let reloadSchema = false;
+		cancelRequested.current = false;
+		setState('executing');
+
+		for (let i = 0; i < statements.length; i++) {
+			const statement = statements[i];
+			setBusyMessage(`Executing statement ${i + 1} of ${statements.length}...`);
+
+			const startTime = performance.now();
+			try {
+				const result = statement.text.startsWith('\\')
+					? await runScriptCommand(statement.text)
+					: await driver.query(statement.bound.sql, statement.bound.params);
+				outcomes[i] = { sql: statement.text, status: 'ok', result: parseQueryResult(result, performance.now() - startTime) };
+				reloadSchema = reloadSchema || changesCurrentSchema(statement.text);
+			} catch (err) {
+				const { connectionLost, ...statementError } = driver.describeError(err);
+				if (connectionLost) {
+					// Earlier statements already ran, so offer to rerun from the failed one
+					const remaining = statements.slice(i).map((rest) => rest.text);
+					setRerunQuery(remaining.join(';\n') + ';');
+					addToHistory(script, { status: 'error', ...scriptTotals(outcomes), error: statementError.message, params });
+					setDisconnected((current) => current ?? { reason: statementError.message, attempt: 0 });
+					setState('connected');
+					return;
+				}
+				outcomes[i] = { sql: statement.text, status: 'error', error: statementError.message };
+				firstError ??= { ...statementError, position: shiftPosition(statementError.position, statement), source: 'server' };
+				if (stopOnError || cancelRequested.current) break;
+			}
+		}
+
+		addToHistory(script, { status: firstError ? 'error' : 'ok', ...scriptTotals(outcomes), error: firstError?.message, params });
+		if (reloadSchema) setSchema(null);
+		// Shown in the editor when returning from the results
+		setQueryErrors(firstError ? [firstError] : []);
+		setScriptResults(outcomes);
+		setState('script-results');
+	};
+
+	const handleQuerySubmit = () => executeQuery(query);
+
+	// Run the selected text, or else just the statement the cursor is in
+	const handleRunAtCursor = (selection: TextRange | null, cursor: number) => {
+		const range = selection ?? findStatementAt(query, cursor, driver?.name);
+		if (range) {
+			executeQuery(query.slice(range.start, range.end), range.start);
+		}
+	};
+
 	const handleBackToQuery = () => {
 		setResults(null);
+		setScriptResults(null);
 		setState('connected');
 	};
 
@@ -266,19 +864,54 @@ const App = ({ config }: AppProps) => {
 	// Clear server errors when user edits (client errors auto-recompute)
 	const handleQueryChange = (newValue: string) => {
 		setQuery(newValue);
+		setNotice(null);
+		// Ctrl+S on an emptied editor saves a new query instead of updating the loaded one
+		if (!newValue.trim()) setLoadedSaved(null);
 		if (queryErrors.some((e) => e.source === 'server')) {
 			setQueryErrors([]);
 		}
 	};
 
+	// MySQL schemas are the database already in the header, and SQLite only has main
+	const headerSchema = driver?.name === 'postgres' ? activeSchema : null;
+
 	// Error state
-	if (state === 'error') {
+	if (state === 'error' && connectError) {
+		return (
+			<Box flexDirection="column" padding={1}>
+				<Text bold color="red">{CONNECT_ERROR_TITLES[connectError.kind]}</Text>
+				<ConnectionTarget config={target} />
+				<Text color="red">{connectError.message}</Text>
+				<Box marginTop={1}>
+					<Text dimColor>
+						r retry • {target.driver !== 'sqlite' && 'h edit host • '}d edit {target.driver === 'sqlite' ? 'file' : 'database'} • Ctrl+C exit
+					</Text>
+				</Box>
+			</Box>
+		);
+	}
+
+	// Correcting the host or database after a failed attempt
+	if (state === 'edit-host' || state === 'edit-database') {
+		const editingHost = state === 'edit-host';
 		return (
 			<Box flexDirection="column" padding={1}>
-				<Text bold color="red">Connection Failed</Text>
-				<Text color="red">{error}</Text>
+				<Text bold>QuickQuery</Text>
+				<ConnectionTarget config={target} />
 				<Box marginTop={1}>
-					<Text dimColor>Press Ctrl+C to exit</Text>
+					<Text>{editingHost ? 'Host: ' : target.driver === 'sqlite' ? 'File: ' : 'Database: '}</Text>
+					<TextInput
+						value={editValue}
+						onChange={(value) => {
+							setEditValue(value);
+							setEditError('');
+						}}
+						onSubmit={editingHost ? handleHostSubmit : handleDatabaseSubmit}
+					/>
+				</Box>
+				{editError && <Text color="red">{editError}</Text>}
+				<Box marginTop={1}>
+					<Text dimColor>Enter connect • Esc back</Text>
 				</Box>
 			</Box>
 		);
@@ -289,7 +922,7 @@ const App = ({ config }: AppProps) => {
 		return (
 			<Box flexDirection="column" padding={1}>
 				<Text bold>QuickQuery</Text>
-				<Text dimColor>{config.host}:{config.port}/{config.database}</Text>
+				<ConnectionTarget config={target} />
 				<Box marginTop={1}>
 					<Text color="yellow">Connecting...</Text>
 				</Box>
@@ -301,12 +934,12 @@ const App = ({ config }: AppProps) => {
 	if (state === 'executing') {
 		return (
 			<Box flexDirection="column" padding={1}>
-				<Box>
-					<Text bold color="green">Connected</Text>
-					<Text dimColor> {username}@{config.host}:{config.port}/{config.database}</Text>
+				<ConnectedHeader config={target} username={username} encrypted={driver?.encrypted} schemaName={headerSchema} disconnected={disconnected} />
+				<Box marginTop={1}>
+					<Text color="yellow">{busyMessage}</Text>
 				</Box>
 				<Box marginTop={1}>
-					<Text color="yellow">Executing query...</Text>
+					<Text dimColor>Esc cancel • Ctrl+C exit</Text>
 				</Box>
 			</Box>
 		);
@@ -317,10 +950,166 @@ const App = ({ config }: AppProps) => {
 		return (
 			<Box flexDirection="column" padding={1}>
 				<Box marginBottom={1}>
-					<Text bold color="green">Connected</Text>
-					<Text dimColor> {username}@{config.host}:{config.port}/{config.database}</Text>
+					<ConnectedHeader config={target} username={username} encrypted={driver?.encrypted} schemaName={headerSchema} disconnected={disconnected} />
+				</Box>
+				<QueryResults data={results} onBack={handleBackToQuery} expanded={expanded} showTiming={timing} />
+			</Box>
+		);
+	}
+
+	// Choosing a database (\c) or schema (\schema)
+	if (state === 'pick-database' || state === 'pick-schema') {
+		const kind = state === 'pick-database' ? 'database' : 'schema';
+		return (
+			<Box flexDirection="column" padding={1}>
+				<ConnectedHeader config={target} username={username} encrypted={driver?.encrypted} schemaName={headerSchema} disconnected={disconnected} />
+				<Box marginTop={1}>
+					<Picker
+						title={kind === 'database' ? 'Switch database' : 'Switch schema'}
+						items={pickerItems}
+						current={kind === 'database' ? target.database : activeSchema ?? undefined}
+						onSelect={(name) => switchTo(kind, name)}
+						onCancel={() => setState('connected')}
+					/>
+				</Box>
+			</Box>
+		);
+	}
+
+	// Prompting for bind parameter values
+	if (state === 'bind-parameters' && parameterPrompt) {
+		const closePrompt = () => {
+			setParameterPrompt(null);
+			setState('connected');
+		};
+		return (
+			<Box flexDirection="column" padding={1}>
+				<ConnectedHeader config={target} username={username} encrypted={driver?.encrypted} schemaName={headerSchema} disconnected={disconnected} />
+				<Box marginTop={1}>
+					<ParameterForm
+						parameters={parameterPrompt.parameters}
+						types={parameterPrompt.types}
+						initialValues={parameterPrompt.initialValues}
+						onSubmit={(values) => {
+							closePrompt();
+							executeQuery(parameterPrompt.sql, parameterPrompt.offset, values);
+						}}
+						onCancel={closePrompt}
+					/>
+				</Box>
+			</Box>
+		);
+	}
+
+	// Ctrl+R: pick a past query to put in the editor
+	if (state === 'search-history') {
+		return (
+			<Box flexDirection="column" padding={1}>
+				<ConnectedHeader config={target} username={username} encrypted={driver?.encrypted} schemaName={headerSchema} disconnected={disconnected} />
+				<Box marginTop={1}>
+					<HistorySearch
+						entries={history}
+						onSelect={(index) => {
+							// ↑↓ carry on from the chosen entry, and ↓ past the newest brings back the draft
+							if (historyIndex === -1) setDraft(query);
+							setHistoryIndex(index);
+							setQuery(history[index]);
+							setState('connected');
+						}}
+						onCancel={() => setState('connected')}
+					/>
+				</Box>
+			</Box>
+		);
+	}
+
+	// Ctrl+O and \s: every run on this connection
+	if (state === 'browse-history') {
+		return (
+			<Box flexDirection="column" padding={1}>
+				<ConnectedHeader config={target} username={username} encrypted={driver?.encrypted} schemaName={headerSchema} disconnected={disconnected} />
+				<Box marginTop={1}>
+					<HistoryBrowser
+						entries={historyEntries}
+						onRun={(entry) => {
+							setState('connected');
+							setQuery(entry.query);
+							executeQuery(entry.query, 0, undefined, entry.params);
+						}}
+						onEdit={(entry) => {
+							setQuery(entry.query);
+							setState('connected');
+						}}
+						onOpenInEditor={(entry) => {
+							setState('connected');
+							editQuery(entry.query);
+						}}
+						onDelete={(index) => {
+							deleteHistoryEntry(target, historyEntries[index]);
+							setHistoryEntries((prev) => prev.filter((_entry, idx) => idx !== index));
+						}}
+						onClose={() => setState('connected')}
+					/>
+				</Box>
+			</Box>
+		);
+	}
+
+	// Ctrl+S: name, describe and tag the query in the editor
+	if (state === 'save-query') {
+		return (
+			<Box flexDirection="column" padding={1}>
+				<ConnectedHeader config={target} username={username} encrypted={driver?.encrypted} schemaName={headerSchema} disconnected={disconnected} />
+				<Box marginTop={1}>
+					<SaveQueryForm
+						initialValues={{
+							name: loadedSaved?.name ?? '',
+							description: loadedSaved?.description ?? '',
+							tags: loadedSaved?.tags.join(', ') ?? '',
+						}}
+						error={saveError}
+						onSubmit={handleSaveQuery}
+						onCancel={() => setState('connected')}
+					/>
+				</Box>
+			</Box>
+		);
+	}
+
+	// Ctrl+P and \saved: load a saved query into the editor
+	if (state === 'pick-saved') {
+		return (
+			<Box flexDirection="column" padding={1}>
+				<ConnectedHeader config={target} username={username} encrypted={driver?.encrypted} schemaName={headerSchema} disconnected={disconnected} />
+				<Box marginTop={1}>
+					<SavedQueryPicker
+						queries={savedQueries}
+						onSelect={(saved) => {
+							setQuery(saved.sql);
+							setLoadedSaved(saved);
+							setQueryErrors([]);
+							setState('connected');
+						}}
+						onOpenInEditor={(saved) => {
+							setLoadedSaved(saved);
+							setState('connected');
+							editQuery(saved.sql);
+						}}
+						onCancel={() => setState('connected')}
+					/>
+				</Box>
+			</Box>
+		);
+	}
+
+	// Multi-statement script results
+	if (state === 'script-results' && scriptResults) {
+		return (
+			<Box flexDirection="column" padding={1}>
+				<Box marginBottom={1}>
+					<ConnectedHeader config={target} username={username} encrypted={driver?.encrypted} schemaName={headerSchema} disconnected={disconnected} />
 				</Box>
-				<QueryResults data={results} onBack={handleBackToQuery} />
+				<ScriptResults statements={scriptResults} onBack={handleBackToQuery} expanded={expanded} showTiming={timing} />
 			</Box>
 		);
 	}
@@ -329,29 +1118,31 @@ const App = ({ config }: AppProps) => {
 	if (state === 'connected') {
 		return (
 			<Box flexDirection="column" padding={1}>
-				<Box>
-					<Text bold color="green">Connected</Text>
-					<Text dimColor> {username}@{config.host}:{config.port}/{config.database}</Text>
-				</Box>
+				<ConnectedHeader config={target} username={username} encrypted={driver?.encrypted} schemaName={headerSchema} disconnected={disconnected} />
 				{/* Editor */}
 				<Box marginTop={1} flexDirection="column">
-					<Text dimColor>Enter SQL query (press Enter to execute):</Text>
-					<Box>
-						<Text color="cyan">{"> "}</Text>
-						<TextInput
-							value={query}
-							onChange={handleQueryChange}
-							onSubmit={handleQuerySubmit}
-							language="sql"
-							placeholder="SELECT * FROM ..."
-							decorations={errorDecorations}
-							getSuggestion={schema ? (value: string) => getSuggestion(value, schema) : undefined}
-						/>
-					</Box>
+					<Text dimColor>Enter SQL query (end it with ; or press Ctrl+J to execute):</Text>
+					<SqlEditor
+						value={query}
+						onChange={handleQueryChange}
+						onSubmit={handleQuerySubmit}
+						onRunAtCursor={handleRunAtCursor}
+						placeholder="SELECT * FROM ..."
+						decorations={errorDecorations}
+						getCompletions={schema ? (value: string, cursor: number) => getCompletions(value, schema, cursor) : undefined}
+						focus={!showRerunPrompt}
+						onHistoryPrevious={handleHistoryPrevious}
+						onHistoryNext={handleHistoryNext}
+						browsingHistory={historyIndex !== -1}
+					/>
 				</Box>
 				{/* Errors - below editor, max 3 descriptions - always reserve space to prevent layout shift */}
 				<Box marginTop={1} flexDirection="column">
-					{visibleErrors.length > 0 ? (
+					{showRerunPrompt ? (
+						<Text color="yellow">
+							Reconnected. The last query failed because the connection was lost. Run it again? (y/n)
+						</Text>
+					) : visibleErrors.length > 0 ? (
 						<>
 							{visibleErrors.map((error, idx) => (
 								<Box key={idx} flexDirection="column">
@@ -365,16 +1156,20 @@ const App = ({ config }: AppProps) => {
 								<Text dimColor>({hiddenErrorCount}) more error{hiddenErrorCount > 1 ? 's' : ''}...</Text>
 							)}
 						</>
+					) : notice ? (
+						<Text color="green">{notice}</Text>
 					) : (
 						<Text> </Text>
 					)}
 				</Box>
 				{/* Hints footer */}
 				<Box marginTop={1}>
-					<Text dimColor>↑↓ history • Enter execute • Ctrl+C exit</Text>
-					{historyIndex !== -1 && (
-						<Text dimColor color="yellow"> ({historyIndex + 1}/{history.length})</Text>
-					)}
+					<Text dimColor>
+						↑↓ history
+						{historyIndex !== -1 && <Text color="yellow"> ({historyIndex + 1}/{history.length})</Text>}
+						{' '}• ; or Ctrl+J run all • Alt+Enter run statement/selection • Ctrl+R search • Ctrl+O history • Ctrl+S save • Ctrl+P saved • Ctrl+E $EDITOR • Ctrl+F format • \c database • \schema • \d tables • Ctrl+C exit
+						{stopOnError ? '' : ' • continuing scripts on error'}
+					</Text>
 				</Box>
 			</Box>
 		);
@@ -384,7 +1179,10 @@ const App = ({ config }: AppProps) => {
 	return (
 		<Box flexDirection="column" padding={1}>
 			<Text bold>QuickQuery</Text>
-			<Text dimColor>{config.host}:{config.port}/{config.database}</Text>
+			<ConnectionTarget config={target} />
+			{connectError?.kind === 'auth' && (
+				<Text color="red">{CONNECT_ERROR_TITLES.auth}: {connectError.message}</Text>
+			)}
 			<Box marginTop={1} flexDirection="column">
 				<Box>
 					<Text>Username: </Text>
@@ -446,21 +1244,46 @@ const args = process.argv.slice(2);
 
 interface ParsedArgs {
 	databaseUrl: string | null;
+	profile: string | null;
 	testTable: boolean;
 	headless: boolean;
 	command: string | null;
 	user: string | null;
 	password: string | null;
+	ssl: Partial<SslConfig>;
+	ssh: SshConfig | null;
+	sshIdentity: string | null;
+	schemas: string[] | null; // --schemas: more schemas to load for autocomplete
+	continueOnError: boolean;
+	params: ParameterValues;
+	saved: string | null; // --saved: run a saved query by name
+}
+
+// --param id=42, also accepting the placeholder as written (:id=42, $1=42)
+function parseParamArg(arg: string): [string, string] {
+	const separator = arg.indexOf('=');
+	if (separator <= 0) {
+		throw new Error(`Invalid parameter "${arg}". Use --param name=value`);
+	}
+	return [arg.slice(0, separator).replace(/^[:$?]/, ''), arg.slice(separator + 1)];
 }
 
 function parseArgs(args: string[]): ParsedArgs {
 	const result: ParsedArgs = {
 		databaseUrl: null,
+		profile: null,
 		testTable: false,
 		headless: false,
 		command: null,
 		user: null,
 		password: null,
+		ssl: {},
+		ssh: null,
+		sshIdentity: null,
+		schemas: null,
+		continueOnError: false,
+		params: {},
+		saved: null,
 	};
 
 	for (let i = 0; i < args.length; i++) {
@@ -476,6 +1299,31 @@ function parseArgs(args: string[]): ParsedArgs {
 			result.user = args[++i] || null;
 		} else if (arg === '-p' || arg === '--password') {
 			result.password = args[++i] || null;
+		} else if (arg === '--profile') {
+			result.profile = args[++i] || null;
+		} else if (arg === '--sslmode') {
+			result.ssl.mode = parseSslMode(args[++i] ?? '');
+		} else if (arg === '--sslrootcert') {
+			result.ssl.rootCert = args[++i];
+		} else if (arg === '--sslcert') {
+			result.ssl.cert = args[++i];
+		} else if (arg === '--sslkey') {
+			result.ssl.key = args[++i];
+		} else if (arg === '--sslservername') {
+			result.ssl.servername = args[++i];
+		} else if (arg === '--ssh') {
+			result.ssh = parseSshDestination(args[++i] ?? '');
+		} else if (arg === '--ssh-identity') {
+			result.sshIdentity = args[++i] || null;
+		} else if (arg === '--schemas') {
+			result.schemas = parseSchemaList(args[++i] ?? '');
+		} else if (arg === '--saved') {
+			result.saved = args[++i] || null;
+		} else if (arg === '--continue-on-error') {
+			result.continueOnError = true;
+		} else if (arg === '--param' || arg === '-v') {
+			const [name, value] = parseParamArg(args[++i] ?? '');
+			result.params[name] = value;
 		} else if (!arg.startsWith('-') && !result.databaseUrl) {
 			result.databaseUrl = arg;
 		}
@@ -484,68 +1332,127 @@ function parseArgs(args: string[]): ParsedArgs {
 	return result;
 }
 
-const parsed = parseArgs(args);
+/**
+ * Apply SSL, SSH and --schemas flags, which take precedence over the connection string and profile.
+ */
+function applyConnectionFlags(config: ConnectionConfig, flags: ParsedArgs): ConnectionConfig {
+	const result = { ...config, ssl: { ...config.ssl, ...flags.ssl } };
+	if (flags.ssh) {
+		result.ssh = flags.ssh;
+	}
+	if (flags.sshIdentity) {
+		if (!result.ssh) {
+			throw new Error('--ssh-identity requires --ssh or a profile with an SSH bastion');
+		}
+		result.ssh = { ...result.ssh, identityFile: flags.sshIdentity };
+	}
+	if (flags.schemas) {
+		result.schemas = flags.schemas;
+	}
+	return result;
+}
+
+let parsed: ParsedArgs;
+try {
+	parsed = parseArgs(args);
+} catch (err) {
+	console.error((err as Error).message);
+	process.exit(1);
+}
 
-// Check for --test-table flag
-if (parsed.testTable) {
+if (args[0] === 'connections') {
+	// Profile management: qq connections list|add|remove
+	process.exit(runConnectionsCommand(args.slice(1)));
+} else if (args[0] === 'format') {
+	// SQL formatting filter: qq format < query.sql
+	process.exit(runFormatCommand(args.slice(1)));
+} else if (parsed.testTable) {
 	render(<TestApp />);
 } else if (parsed.headless) {
 	// Headless mode: connect, execute, print results, exit
-	if (!parsed.databaseUrl) {
+	if (!parsed.databaseUrl && !parsed.profile && !process.env.PGSERVICE) {
 		console.error('Error: Database URL is required for headless mode');
 		console.error('');
-		console.error('Usage: qq --headless <database-url> -c "<sql-query>"');
+		console.error('Usage: qq --headless <connection-string | @profile> -c "<sql-query>"');
 		console.error('');
 		console.error('Options:');
-		console.error('  -c, --command <query>   SQL query to execute');
+		console.error('  -c, --command <query>   SQL to execute; separate statements with ;');
+		console.error('  --saved <name>          Run a saved query instead of -c');
+		console.error('  --continue-on-error     Keep running the remaining statements after one fails');
+		console.error('  -v, --param <name=val>  Value for a :name, $1 or ? placeholder (number ? from 1); repeatable');
+		console.error('  --profile <name>        Use a saved connection profile');
+		console.error('  --sslmode <mode>        disable, allow, prefer (default), require, verify-ca, verify-full');
+		console.error('  --sslrootcert <file>    CA bundle used to verify the server certificate');
+		console.error('  --sslcert <file>        Client certificate');
+		console.error('  --sslkey <file>         Client private key');
+		console.error('  --sslservername <name>  Override the TLS server name (SNI)');
+		console.error('  --ssh <user@host:port>  Connect through an SSH bastion');
+		console.error('  --ssh-identity <file>   SSH private key (default: ssh-agent, then ~/.ssh/id_*)');
 		console.error('  -u, --user <username>   Database username (or set PGUSER)');
-		console.error('  -p, --password <pass>   Database password (or set PGPASSWORD)');
+		console.error('  -p, --password <pass>   Database password (or set PGPASSWORD/MYSQL_PWD, or use ~/.pgpass)');
 		process.exit(1);
 	}
 
-	if (!parsed.command) {
-		console.error('Error: Query is required for headless mode');
+	if (!parsed.command === !parsed.saved) {
+		console.error(parsed.command ? 'Error: Use either -c or --saved, not both' : 'Error: Query is required for headless mode');
 		console.error('');
-		console.error('Usage: qq --headless <database-url> -c "<sql-query>"');
+		console.error('Usage: qq --headless <connection-string> -c "<sql-query>"');
+		console.error('       qq --headless <connection-string> --saved <name>');
 		process.exit(1);
 	}
 
-	const user = parsed.user || process.env.PGUSER;
-	const password = parsed.password || process.env.PGPASSWORD;
-
-	if (!user || !password) {
-		console.error('Error: Username and password are required');
-		console.error('');
-		console.error('Provide via flags (-u, -p) or environment variables (PGUSER, PGPASSWORD)');
+	let query: string;
+	try {
+		query = parsed.saved ? findSavedQuery(parsed.saved).sql : parsed.command!;
+	} catch (err) {
+		console.error(`Error: ${(err as Error).message}`);
 		process.exit(1);
 	}
 
 	let config: ConnectionConfig;
 	try {
-		config = parseJdbcUrl(parsed.databaseUrl!);
+		config = applyConnectionFlags(resolveConnection(parsed.databaseUrl, parsed.profile), parsed);
 	} catch (err) {
 		console.error((err as Error).message);
 		process.exit(1);
 	}
 
+	const envUser = (config!.driver ?? 'postgres') === 'postgres' ? process.env.PGUSER : undefined;
+	const user = parsed.user || envUser || config!.user || '';
+	const password = parsed.password ?? (user ? resolvePassword(config!, user) : undefined);
+
+	if (requiresCredentials(config!) && (!user || password === undefined)) {
+		console.error('Error: Username and password are required');
+		console.error('');
+		console.error('Provide via flags (-u, -p), environment variables (PGUSER, PGPASSWORD), ~/.pgpass or pg_service.conf');
+		process.exit(1);
+	}
+
 	runHeadless({
-		host: config!.host,
-		port: config!.port,
-		database: config!.database,
+		connection: config!,
 		user,
-		password,
-		query: parsed.command!,
+		password: password ?? '',
+		query: query!,
+		params: parsed.params,
+		stopOnError: !parsed.continueOnError,
 	});
 } else {
-	const databaseUrl = parsed.databaseUrl;
-
-	if (!databaseUrl) {
-		console.error('Usage: qq <database-url>');
-		console.error('       qq --headless <database-url> -c "<sql-query>"');
+	if (!parsed.databaseUrl && !parsed.profile && !process.env.PGSERVICE) {
+		console.error('Usage: qq <connection-string>');
+		console.error('       qq @<profile>');
+		console.error('       qq --headless <connection-string> -c "<sql-query>"');
+		console.error('       qq connections list|add|remove');
+		console.error('       qq format [--keyword-case upper|lower|preserve] < query.sql');
 		console.error('       qq --test-table');
 		console.error('');
 		console.error('Examples:');
 		console.error('  qq jdbc:postgresql://localhost:5432/postgres');
+		console.error('  qq postgres://me@localhost/postgres?sslmode=require');
+		console.error('  qq "host=localhost dbname=postgres user=me"');
+		console.error('  qq mysql://me@localhost:3306/app');
+		console.error('  qq sqlite:///path/to/app.db');
+		console.error('  qq @staging        # Connect using the saved "staging" profile');
+		console.error('  qq postgres://me@localhost/app --schemas audit,billing   # Also complete tables of these schemas');
 		console.error('  qq --headless jdbc:postgresql://localhost:5432/postgres -c "SELECT * FROM users"');
 		console.error('  qq --test-table    # Test table display with sample data');
 		process.exit(1);
@@ -553,11 +1460,12 @@ if (parsed.testTable) {
 
 	let config: ConnectionConfig;
 	try {
-		config = parseJdbcUrl(databaseUrl);
+		config = applyConnectionFlags(resolveConnection(parsed.databaseUrl, parsed.profile), parsed);
 	} catch (err) {
 		console.error((err as Error).message);
 		process.exit(1);
 	}
 
-	render(<App config={config} />);
+	// Ctrl+C is handled by App so it can close the connection and SSH tunnel
+	render(<App config={config} stopOnError={!parsed.continueOnError} />, { exitOnCtrlC: false });
 }
@@ -0,0 +1,52 @@
+import type { SavedQuery } from './savedQueries.js';
+
+const WORD_BOUNDARY = /[\s\-_.,/]/;
+
+/**
+ * Score `pattern` as a subsequence of `text`, ignoring case: null when some
+ * character is missing, higher when matches are consecutive or start words.
+ */
+export function fuzzyScore(pattern: string, text: string): number | null {
+	const needle = pattern.toLowerCase();
+	const haystack = text.toLowerCase();
+	let score = 0;
+	let last = -1;
+	for (const char of needle) {
+		const index = haystack.indexOf(char, last + 1);
+		if (index === -1) return null;
+		score += 1;
+		if (index === last + 1) score += 2;
+		if (index === 0 || WORD_BOUNDARY.test(haystack[index - 1])) score += 3;
+		last = index;
+	}
+	return score;
+}
+
+/**
+ * Saved queries matching every word of `term` in their name, tags or
+ * description, best first. Name matches count double.
+ */
+export function searchSavedQueries(queries: SavedQuery[], term: string): SavedQuery[] {
+	const words = term.trim().split(/\s+/).filter(Boolean);
+	if (words.length === 0) return queries;
+
+	const scored: { query: SavedQuery; score: number }[] = [];
+	for (const query of queries) {
+		let total = 0;
+		for (const word of words) {
+			const name = fuzzyScore(word, query.name);
+			const scores = [
+				name === null ? null : name * 2,
+				...query.tags.map((tag) => fuzzyScore(word, tag)),
+				fuzzyScore(word, query.description),
+			].filter((score): score is number => score !== null);
+			if (scores.length === 0) {
+				total = -1;
+				break;
+			}
+			total += Math.max(...scores);
+		}
+		if (total >= 0) scored.push({ query, score: total });
+	}
+	return scored.sort((a, b) => b.score - a.score || a.query.name.localeCompare(b.query.name)).map(({ query }) => query);
+}
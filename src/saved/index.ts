@@ -0,0 +1,12 @@
+export {
+	getSavedQueriesDir,
+	validateSavedQueryName,
+	parseTags,
+	parseSavedQuery,
+	formatSavedQuery,
+	loadSavedQueries,
+	findSavedQuery,
+	saveQuery,
+	type SavedQuery,
+} from './savedQueries.js';
+export { fuzzyScore, searchSavedQueries } from './fuzzy.js';
@@ -0,0 +1,113 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { getConfigDir } from '../connection/index.js';
+
+export interface SavedQuery {
+	name: string; // The file name without .sql
+	description: string;
+	tags: string[];
+	sql: string;
+}
+
+const NAME_PATTERN = /^[\w.-]+$/;
+const HEADER_PATTERN = /^--\s*(description|tags):\s*(.*)$/i;
+
+export function getSavedQueriesDir(): string {
+	return process.env.QQ_QUERIES_DIR || path.join(getConfigDir(), 'queries');
+}
+
+export function validateSavedQueryName(name: string): void {
+	if (!NAME_PATTERN.test(name)) {
+		throw new Error(`Invalid name "${name}". Use letters, digits, ".", "-" and "_"`);
+	}
+}
+
+// "a, b,,c " -> ["a", "b", "c"]
+export function parseTags(value: string): string[] {
+	return value
+		.split(',')
+		.map((tag) => tag.trim())
+		.filter(Boolean);
+}
+
+/**
+ * A saved query is a plain .sql file, so it reads and diffs well in a repo.
+ * `-- description:` and `-- tags:` comment lines at the top hold the details:
+ *
+ *   -- description: Tables with the most dead tuples
+ *   -- tags: postgres, maintenance
+ *   SELECT ...
+ */
+export function parseSavedQuery(name: string, content: string): SavedQuery {
+	const query: SavedQuery = { name, description: '', tags: [], sql: '' };
+	const lines = content.split(/\r?\n/);
+	let start = 0;
+	for (; start < lines.length; start++) {
+		const match = lines[start].match(HEADER_PATTERN);
+		if (!match) break;
+		if (match[1].toLowerCase() === 'description') {
+			query.description = match[2].trim();
+		} else {
+			query.tags = parseTags(match[2]);
+		}
+	}
+	query.sql = lines.slice(start).join('\n').trim();
+	return query;
+}
+
+export function formatSavedQuery(query: SavedQuery): string {
+	const header: string[] = [];
+	if (query.description) header.push(`-- description: ${query.description}`);
+	if (query.tags.length > 0) header.push(`-- tags: ${query.tags.join(', ')}`);
+	return [...header, query.sql.trim()].join('\n') + '\n';
+}
+
+/**
+ * All saved queries, by name. Files that cannot be read are skipped.
+ */
+export function loadSavedQueries(): SavedQuery[] {
+	const dir = getSavedQueriesDir();
+	let files: string[];
+	try {
+		files = fs.readdirSync(dir);
+	} catch {
+		return [];
+	}
+
+	const queries: SavedQuery[] = [];
+	for (const file of files) {
+		const name = file.replace(/\.sql$/, '');
+		if (name === file || !NAME_PATTERN.test(name)) continue;
+		try {
+			queries.push(parseSavedQuery(name, fs.readFileSync(path.join(dir, file), 'utf8')));
+		} catch {
+			// A directory named *.sql or an unreadable file
+		}
+	}
+	return queries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function findSavedQuery(name: string): SavedQuery {
+	const queries = loadSavedQueries();
+	const query = queries.find((candidate) => candidate.name === name);
+	if (!query) {
+		const known = queries.map((candidate) => candidate.name).join(', ');
+		throw new Error(
+			known ? `No saved query named "${name}". Saved queries: ${known}` : `No saved query named "${name}" in ${getSavedQueriesDir()}`
+		);
+	}
+	return query;
+}
+
+/**
+ * Write a query to <name>.sql, replacing one saved under the same name.
+ */
+export function saveQuery(query: SavedQuery): void {
+	validateSavedQueryName(query.name);
+	if (!query.sql.trim()) {
+		throw new Error('The query is empty');
+	}
+	const dir = getSavedQueriesDir();
+	fs.mkdirSync(dir, { recursive: true });
+	fs.writeFileSync(path.join(dir, `${query.name}.sql`), formatSavedQuery(query));
+}
@@ -0,0 +1,61 @@
+import fs from 'node:fs';
+import type { DriverName } from '../connection/index.js';
+import { formatSql, parseKeywordCase, type FormatOptions } from './formatter.js';
+
+const DIALECTS: DriverName[] = ['postgres', 'mysql', 'sqlite'];
+
+function printUsage(): void {
+	console.error('Usage: qq format [options] < query.sql');
+	console.error('');
+	console.error('Reads SQL from stdin and writes it formatted to stdout.');
+	console.error('');
+	console.error('Options:');
+	console.error('  --keyword-case <case>  upper (default), lower or preserve');
+	console.error('  --dialect <name>       postgres (default), mysql or sqlite');
+	console.error('  --check                Print nothing; exit with 1 if the input is not formatted');
+}
+
+function parseFormatArgs(args: string[]): FormatOptions & { check: boolean } {
+	const options: FormatOptions & { check: boolean } = { check: false };
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (arg === '--keyword-case') {
+			options.keywordCase = parseKeywordCase(args[++i] ?? '');
+		} else if (arg === '--dialect') {
+			const dialect = args[++i] ?? '';
+			if (!DIALECTS.includes(dialect as DriverName)) {
+				throw new Error(`Unknown dialect "${dialect}". Use postgres, mysql or sqlite`);
+			}
+			options.dialect = dialect as DriverName;
+		} else if (arg === '--check') {
+			options.check = true;
+		} else {
+			throw new Error(`Unknown option: ${arg}`);
+		}
+	}
+	return options;
+}
+
+/**
+ * qq format: a filter for editors and pre-commit hooks.
+ */
+export function runFormatCommand(args: string[]): number {
+	let options: ReturnType<typeof parseFormatArgs>;
+	try {
+		options = parseFormatArgs(args);
+	} catch (err) {
+		console.error(`Error: ${(err as Error).message}`);
+		console.error('');
+		printUsage();
+		return 1;
+	}
+
+	const input = fs.readFileSync(0, 'utf8');
+	const formatted = formatSql(input, options);
+	const output = formatted ? `${formatted}\n` : '';
+	if (options.check) {
+		return output === input ? 0 : 1;
+	}
+	process.stdout.write(output);
+	return 0;
+}
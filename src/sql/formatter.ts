@@ -0,0 +1,277 @@
+import type { DriverName } from '../connection/index.js';
+import { SQL_FUNCTIONS, SQL_KEYWORDS } from '../autocomplete/index.js';
+import { tokenize, type Token } from './tokenizer.js';
+
+export type KeywordCase = 'upper' | 'lower' | 'preserve';
+
+export interface FormatOptions {
+	keywordCase?: KeywordCase; // Default: upper
+	dialect?: DriverName;
+	indent?: string; // Default: two spaces
+}
+
+// Words the layout rules rely on that the autocomplete vocabulary leaves out
+const LAYOUT_KEYWORDS = ['WITH', 'RECURSIVE', 'RETURNING', 'USING', 'NATURAL', 'OVER', 'PARTITION'];
+
+const KEYWORDS = new Set([...SQL_KEYWORDS, ...LAYOUT_KEYWORDS]);
+const FUNCTIONS = new Set(SQL_FUNCTIONS);
+
+const JOIN_WORDS = new Set(['JOIN', 'LEFT', 'RIGHT', 'FULL', 'INNER', 'OUTER', 'CROSS', 'NATURAL']);
+// Words that end a SELECT column list
+const SELECT_LIST_END = new Set(['FROM', 'INTO', 'WHERE', 'GROUP', 'ORDER', 'HAVING', 'LIMIT', 'OFFSET', 'UNION', 'INTERSECT', 'EXCEPT']);
+// Always spaced, whatever the input did; other operators keep their spacing (::, -1, @var)
+const COMPARISON_OPERATORS = new Set(['=', '<>', '!=', '<', '>', '<=', '>=']);
+
+const KEYWORD_CASES: KeywordCase[] = ['upper', 'lower', 'preserve'];
+
+export function parseKeywordCase(value: string): KeywordCase {
+	const normalized = value.toLowerCase();
+	if (!KEYWORD_CASES.includes(normalized as KeywordCase)) {
+		throw new Error(`Invalid keyword case "${value}". Use upper, lower or preserve`);
+	}
+	return normalized as KeywordCase;
+}
+
+function applyCase(text: string, keywordCase: KeywordCase): string {
+	if (keywordCase === 'upper') return text.toUpperCase();
+	if (keywordCase === 'lower') return text.toLowerCase();
+	return text;
+}
+
+interface Item {
+	token: Token;
+	upper: string;
+	spaceBefore: boolean; // Whitespace or a comment preceded it in the input
+	newlineBefore: boolean;
+}
+
+// Layout state, saved when entering parentheses and restored when leaving them
+interface Frame {
+	kind: 'subquery' | 'expression';
+	indent: number;
+	closeIndent: number; // Indentation of the line the parenthesis opened on
+	clause: string | null;
+	selectList: boolean;
+}
+
+function isKeywordItem(item: Item | null): boolean {
+	return item?.token.type === 'word' && KEYWORDS.has(item.upper);
+}
+
+function toItems(tokens: Token[]): Item[] {
+	const items: Item[] = [];
+	let space = false;
+	let newline = false;
+	for (const token of tokens) {
+		if (token.type === 'whitespace') {
+			space = true;
+			newline ||= token.text.includes('\n');
+			continue;
+		}
+		items.push({ token, upper: token.text.toUpperCase(), spaceBefore: space, newlineBefore: newline });
+		space = token.type === 'comment';
+		newline = token.type === 'comment' && !token.text.startsWith('/*');
+	}
+	return items;
+}
+
+/**
+ * Reflow SQL: clause keywords start new lines, JOIN and ON are indented under
+ * FROM, AND/OR conditions get a line each and subqueries are indented inside
+ * their parentheses. Keywords and function names get the chosen case; string
+ * literals, comments and quoted identifiers are copied unchanged.
+ */
+export function formatSql(sql: string, options: FormatOptions = {}): string {
+	const { keywordCase = 'upper', dialect = 'postgres', indent: unit = '  ' } = options;
+	const items = toItems(tokenize(sql, dialect));
+
+	const lines: string[] = [];
+	let line = '';
+	let lineIndent = 0;
+
+	let frames: Frame[] = [];
+	let indent = 0;
+	let clause: string | null = null;
+	let selectList = false; // One SELECT column per line
+	let betweenPending = false; // The next AND belongs to BETWEEN
+	let statementEnded = false;
+	let breakPending = false; // After a line comment
+	let prev: Item | null = null; // Previous code token in the statement
+
+	const newline = (level: number) => {
+		if (line.trim()) lines.push(line.trimEnd());
+		line = unit.repeat(level);
+		lineIndent = level;
+	};
+
+	const emit = (text: string, space: boolean) => {
+		if (line.trim() && space) line += ' ';
+		line += text;
+	};
+
+	const startStatement = () => {
+		newline(0);
+		lines.push('');
+		frames = [];
+		indent = 0;
+		clause = null;
+		selectList = false;
+		betweenPending = false;
+		statementEnded = false;
+		prev = null;
+	};
+
+	const nextCode = (from: number): Item | null => {
+		for (let j = from; j < items.length; j++) {
+			if (items[j].token.type !== 'comment') return items[j];
+		}
+		return null;
+	};
+
+	const hasTopLevelComma = (from: number): boolean => {
+		let depth = 0;
+		for (let j = from; j < items.length; j++) {
+			const { token, upper } = items[j];
+			if (token.type === 'comment') continue;
+			if (token.text === '(') {
+				depth++;
+			} else if (token.text === ')') {
+				if (depth === 0) return false;
+				depth--;
+			} else if (depth === 0) {
+				if (token.text === ';') return false;
+				if (token.text === ',') return true;
+				if (token.type === 'word' && SELECT_LIST_END.has(upper)) return false;
+			}
+		}
+		return false;
+	};
+
+	const startsClause = (upper: string, next: Item | null): boolean => {
+		const before = prev?.upper ?? null;
+		switch (upper) {
+			case 'SELECT':
+			case 'WHERE':
+			case 'HAVING':
+			case 'LIMIT':
+			case 'OFFSET':
+			case 'UNION':
+			case 'INTERSECT':
+			case 'EXCEPT':
+			case 'VALUES':
+			case 'RETURNING':
+				return true;
+			case 'FROM':
+				return before !== 'DELETE' && before !== 'DISTINCT';
+			case 'GROUP':
+			case 'ORDER':
+				return next?.upper === 'BY';
+			case 'SET':
+				return clause === 'UPDATE';
+			case 'WITH':
+			case 'INSERT':
+			case 'UPDATE':
+			case 'DELETE':
+				// Only where a statement can begin, not in "timestamp with time zone" or "DO UPDATE"
+				return before === null || before === '(' || before === ')';
+			default:
+				return false;
+		}
+	};
+
+	for (let i = 0; i < items.length; i++) {
+		const item = items[i];
+		const { token, upper } = item;
+
+		if (token.type === 'comment') {
+			if (statementEnded && item.newlineBefore) startStatement();
+			if (item.newlineBefore || breakPending) newline(lineIndent);
+			breakPending = false;
+			emit(token.text, true);
+			breakPending = !token.text.startsWith('/*');
+			continue;
+		}
+
+		if (statementEnded) startStatement();
+		if (breakPending) {
+			newline(lineIndent);
+			breakPending = false;
+		}
+
+		const next = nextCode(i + 1);
+		const statementLevel = frames[frames.length - 1]?.kind !== 'expression';
+		const qualified = prev?.token.text === '.' || next?.token.text === '.';
+		const isKeyword = token.type === 'word' && !qualified && KEYWORDS.has(upper);
+		const isFunction = token.type === 'word' && !qualified && FUNCTIONS.has(upper) && next?.token.text === '(';
+		const text = isKeyword || isFunction ? applyCase(token.text, keywordCase) : token.text;
+
+		// Spacing: follow the input for operators other than comparisons and for "name(" vs "name ("
+		let space = true;
+		if ([',', ';', ')', ']', '.'].includes(token.text) || ['(', '[', '.'].includes(prev?.token.text ?? '')) {
+			space = false;
+		} else if (token.text === '(' || token.text === '[') {
+			space = (isKeywordItem(prev) && !FUNCTIONS.has(prev!.upper)) || item.spaceBefore;
+		} else if (token.type === 'operator' && !COMPARISON_OPERATORS.has(token.text)) {
+			space = item.spaceBefore;
+		} else if (prev?.token.type === 'operator' && !COMPARISON_OPERATORS.has(prev.token.text)) {
+			space = item.spaceBefore;
+		}
+
+		if (isKeyword && statementLevel) {
+			if (startsClause(upper, next)) {
+				newline(indent);
+				clause = upper;
+				selectList = upper === 'SELECT' && hasTopLevelComma(i + 1);
+				betweenPending = false;
+			} else if (JOIN_WORDS.has(upper) && !JOIN_WORDS.has(prev?.upper ?? '') && !isFunction && ['FROM', 'JOIN', 'ON'].includes(clause ?? '')) {
+				newline(indent + 1);
+				clause = 'JOIN';
+			} else if (upper === 'ON' && clause === 'JOIN') {
+				newline(indent + 2);
+				clause = 'ON';
+			} else if (upper === 'AND' && betweenPending) {
+				betweenPending = false;
+			} else if (upper === 'AND' || upper === 'OR') {
+				if (clause === 'WHERE' || clause === 'HAVING') newline(indent + 1);
+				else if (clause === 'ON') newline(indent + 2);
+			}
+			if (upper === 'BETWEEN') betweenPending = true;
+		}
+
+		// The first SELECT column goes on its own line, after any DISTINCT or ALL
+		if (selectList && statementLevel && clause === 'SELECT' && prev && ['SELECT', 'DISTINCT', 'ALL'].includes(prev.upper) && upper !== 'DISTINCT' && upper !== 'ALL') {
+			newline(indent + 1);
+		}
+
+		if (token.text === '(') {
+			emit(text, space);
+			const subquery = next?.upper === 'SELECT' || next?.upper === 'WITH';
+			frames.push({ kind: subquery ? 'subquery' : 'expression', indent, closeIndent: lineIndent, clause, selectList });
+			if (subquery) {
+				indent = lineIndent + 1;
+				clause = null;
+				selectList = false;
+			}
+		} else if (token.text === ')') {
+			const frame = frames.pop();
+			if (frame) {
+				if (frame.kind === 'subquery') newline(frame.closeIndent);
+				({ indent, clause, selectList } = frame);
+			}
+			emit(text, space);
+		} else if (token.text === ';') {
+			emit(text, false);
+			statementEnded = true;
+		} else if (token.text === ',' && selectList && statementLevel && clause === 'SELECT') {
+			emit(text, false);
+			newline(indent + 1);
+		} else {
+			emit(text, space);
+		}
+
+		prev = item;
+	}
+
+	newline(0);
+	return lines.join('\n').trim();
+}
@@ -0,0 +1,15 @@
+export { tokenize, type Token, type TokenType } from './tokenizer.js';
+export { splitStatements, findStatementAt, maskMetaCommands, type SqlStatement } from './statements.js';
+export { formatSql, parseKeywordCase, type FormatOptions, type KeywordCase } from './formatter.js';
+export { runFormatCommand } from './cli.js';
+export {
+	findPlaceholders,
+	uniqueParameters,
+	placeholdersIn,
+	inferParameterTypes,
+	coerceParameter,
+	bindParameters,
+	type Placeholder,
+	type ParameterValues,
+	type BoundQuery,
+} from './parameters.js';
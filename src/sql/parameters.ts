@@ -0,0 +1,180 @@
+import type { DriverName } from '../connection/index.js';
+import type { TableInfo } from '../autocomplete/index.js';
+import { tokenize, type Token } from './tokenizer.js';
+
+export interface Placeholder {
+	name: string; // "1" for $1 or the first ?, "id" for :id
+	label: string; // As shown to the user: $1, ?1, :id
+	start: number;
+	end: number; // Exclusive
+}
+
+// Raw values as typed, by placeholder name
+export type ParameterValues = Record<string, string>;
+
+export interface BoundQuery {
+	sql: string;
+	params: unknown[];
+}
+
+const COMPARISONS = new Set(['=', '<>', '!=', '<', '>', '<=', '>=', 'LIKE', 'ILIKE']);
+const NUMERIC_TYPE = /int|serial|numeric|decimal|real|double|float|number/i;
+
+function codeTokens(sql: string, dialect: DriverName): Token[] {
+	return tokenize(sql, dialect).filter((token) => token.type !== 'whitespace' && token.type !== 'comment');
+}
+
+/**
+ * Find bind placeholders outside strings, comments and quoted identifiers:
+ * $1 in Postgres, ? in MySQL and SQLite, and :name everywhere (not :: casts
+ * or array slices). The same name may occur more than once.
+ */
+export function findPlaceholders(sql: string, dialect: DriverName): Placeholder[] {
+	const tokens = codeTokens(sql, dialect);
+	const placeholders: Placeholder[] = [];
+	let positional = 0;
+	let brackets = 0;
+
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		const next = tokens[i + 1];
+		const end = token.start + token.text.length;
+
+		if (token.text === '[') {
+			brackets++;
+		} else if (token.text === ']') {
+			brackets = Math.max(0, brackets - 1);
+		} else if (token.type === 'parameter') {
+			placeholders.push({ name: token.text.slice(1), label: token.text, start: token.start, end });
+		} else if (token.type === 'operator' && token.text.endsWith('?') && dialect !== 'postgres') {
+			// The tokenizer runs "=?" together; Postgres uses ? as a JSON operator
+			positional++;
+			placeholders.push({ name: String(positional), label: `?${positional}`, start: end - 1, end });
+		} else if (token.text === ':' && !brackets && next?.type === 'word' && next.start === end) {
+			placeholders.push({ name: next.text, label: `:${next.text}`, start: token.start, end: next.start + next.text.length });
+			i++;
+		}
+	}
+
+	return placeholders;
+}
+
+// One placeholder per name, in order of first use
+export function uniqueParameters(placeholders: Placeholder[]): Placeholder[] {
+	const seen = new Set<string>();
+	return placeholders.filter((placeholder) => !seen.has(placeholder.name) && seen.add(placeholder.name));
+}
+
+// The placeholders inside a range of the text, with offsets relative to its start
+export function placeholdersIn(placeholders: Placeholder[], range: { start: number; end: number }): Placeholder[] {
+	return placeholders
+		.filter((placeholder) => placeholder.start >= range.start && placeholder.end <= range.end)
+		.map((placeholder) => ({ ...placeholder, start: placeholder.start - range.start, end: placeholder.end - range.start }));
+}
+
+/**
+ * Column types for placeholders compared with a column (`email = :email`,
+ * `id IN (?, ?)`) or used as LIMIT/OFFSET, by placeholder name.
+ */
+export function inferParameterTypes(sql: string, placeholders: Placeholder[], tables: TableInfo[], dialect: DriverName): Record<string, string> {
+	const tokens = codeTokens(sql, dialect);
+	const words = new Set(tokens.filter((t) => t.type === 'word').map((t) => t.text.toLowerCase()));
+	const types: Record<string, string> = {};
+
+	const columnType = (column: string, qualifier: string | null): string | undefined => {
+		const name = column.toLowerCase();
+		const candidates = tables.filter((table) => table.columns.some((c) => c.name.toLowerCase() === name));
+		const table =
+			candidates.find((t) => t.name.toLowerCase() === qualifier) ??
+			candidates.find((t) => words.has(t.name.toLowerCase())) ??
+			candidates[0];
+		return table?.columns.find((c) => c.name.toLowerCase() === name)?.dataType;
+	};
+
+	const overlaps = (token: Token) =>
+		placeholders.some((p) => p.start < token.start + token.text.length && token.start < p.end);
+
+	for (const placeholder of placeholders) {
+		let i = tokens.findIndex((t) => t.start <= placeholder.start && placeholder.start < t.start + t.text.length);
+		if (i === -1 || types[placeholder.name]) continue;
+
+		// "=?" is one token, so the comparison is already there
+		const joined = tokens[i].start < placeholder.start;
+		if (!joined) {
+			// Step back over earlier items of an IN list
+			let j = i - 1;
+			while (j >= 0 && (tokens[j].text === ',' || overlaps(tokens[j]))) j--;
+			if (tokens[j]?.text === '(' && tokens[j - 1]?.text.toUpperCase() === 'IN') i = j;
+		}
+		const before = tokens[i - 1]?.text.toUpperCase();
+		if (before === 'LIMIT' || before === 'OFFSET') {
+			types[placeholder.name] = 'integer';
+			continue;
+		}
+		const columnIndex = joined ? i - 1 : before === 'IN' || (before && COMPARISONS.has(before)) ? i - 2 : -1;
+		const column = tokens[columnIndex];
+		if (!column || (column.type !== 'word' && column.type !== 'quoted')) continue;
+		const qualifier = tokens[columnIndex - 1]?.text === '.' ? (tokens[columnIndex - 2]?.text.toLowerCase() ?? null) : null;
+		const type = columnType(column.type === 'quoted' ? column.text.slice(1, -1) : column.text, qualifier);
+		if (type) types[placeholder.name] = type;
+	}
+
+	return types;
+}
+
+/**
+ * Turn a typed value into a parameter: NULL is null, and numbers compared with
+ * numeric columns are numbers (MySQL rejects LIMIT '10'). Everything else stays
+ * text for the database to convert.
+ */
+export function coerceParameter(value: string, dataType?: string): unknown {
+	if (/^null$/i.test(value)) return null;
+	const trimmed = value.trim();
+	if (dataType && NUMERIC_TYPE.test(dataType) && trimmed && String(Number(trimmed)) === trimmed) {
+		return Number(trimmed);
+	}
+	return value;
+}
+
+/**
+ * Rewrite placeholders into the driver's native form ($n for Postgres, ? for
+ * MySQL and SQLite) and collect the values in order. Each replacement is padded
+ * to the placeholder's length so error positions still point into the original text.
+ */
+export function bindParameters(
+	sql: string,
+	placeholders: Placeholder[],
+	values: ParameterValues,
+	dialect: DriverName,
+	types: Record<string, string> = {}
+): BoundQuery {
+	const params: unknown[] = [];
+	const numbers = new Map<string, number>();
+	let text = '';
+	let last = 0;
+
+	for (const placeholder of placeholders) {
+		const value = values[placeholder.name];
+		if (value === undefined) {
+			throw new Error(`No value for parameter ${placeholder.label}`);
+		}
+
+		let replacement = '?';
+		if (dialect === 'postgres') {
+			let number = numbers.get(placeholder.name);
+			if (number === undefined) {
+				params.push(coerceParameter(value, types[placeholder.name]));
+				number = params.length;
+				numbers.set(placeholder.name, number);
+			}
+			replacement = `$${number}`;
+		} else {
+			params.push(coerceParameter(value, types[placeholder.name]));
+		}
+
+		text += sql.slice(last, placeholder.start) + replacement.padEnd(placeholder.end - placeholder.start);
+		last = placeholder.end;
+	}
+
+	return { sql: text + sql.slice(last), params };
+}
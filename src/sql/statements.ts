@@ -0,0 +1,84 @@
+import type { DriverName } from '../connection/index.js';
+import { tokenize, type Token } from './tokenizer.js';
+
+export interface SqlStatement {
+	text: string; // Without the terminating semicolon or surrounding whitespace
+	start: number; // Offset of the statement in the script, for mapping error positions
+	end: number; // Offset just past its last character, before any semicolon
+}
+
+function isCode(token: Token): boolean {
+	return token.type !== 'whitespace' && token.type !== 'comment';
+}
+
+/**
+ * Split a script into statements at semicolons outside string literals,
+ * quoted identifiers, comments and dollar-quoted bodies. A backslash command
+ * also ends at the end of its line, as in psql. Comment-only stretches between
+ * semicolons are dropped; comments inside a statement are kept.
+ */
+export function splitStatements(sql: string, dialect?: DriverName): SqlStatement[] {
+	const statements: SqlStatement[] = [];
+	let current: Token[] = [];
+	let metaCommand = false;
+
+	const flush = () => {
+		const first = current.findIndex(isCode);
+		if (first !== -1) {
+			// Leading comments belong to the statement (e.g. a note above it); trailing whitespace does not
+			const lead = current.findIndex((token) => token.type !== 'whitespace');
+			let last = current.length - 1;
+			while (current[last].type === 'whitespace') last--;
+			const tokens = current.slice(lead, last + 1);
+			const text = tokens.map((token) => token.text).join('');
+			statements.push({ text, start: tokens[0].start, end: tokens[0].start + text.length });
+		}
+		current = [];
+		metaCommand = false;
+	};
+
+	for (const token of tokenize(sql, dialect)) {
+		if (token.type === 'punctuation' && token.text === ';') {
+			flush();
+			continue;
+		}
+		if (metaCommand && token.type === 'whitespace' && token.text.includes('\n')) {
+			flush();
+		} else if (token.text === '\\' && !current.some(isCode)) {
+			metaCommand = true;
+		}
+		current.push(token);
+	}
+	flush();
+
+	return statements;
+}
+
+/**
+ * The script with its backslash commands blanked out, offsets unchanged, so
+ * scans for bind placeholders skip command arguments such as "\dt user?".
+ */
+export function maskMetaCommands(sql: string, dialect?: DriverName): string {
+	let masked = sql;
+	for (const statement of splitStatements(sql, dialect)) {
+		if (statement.text.startsWith('\\')) {
+			masked = masked.slice(0, statement.start) + ' '.repeat(statement.end - statement.start) + masked.slice(statement.end);
+		}
+	}
+	return masked;
+}
+
+/**
+ * The statement the cursor is in, for running one statement of a script.
+ * Between statements (e.g. just after a semicolon) it is the one before the
+ * cursor; before the first statement, the first one.
+ */
+export function findStatementAt(sql: string, cursor: number, dialect?: DriverName): SqlStatement | null {
+	const statements = splitStatements(sql, dialect);
+	let found: SqlStatement | null = statements[0] ?? null;
+	for (const statement of statements) {
+		if (statement.start > cursor) break;
+		found = statement;
+	}
+	return found;
+}
@@ -0,0 +1,137 @@
+import type { DriverName } from '../connection/index.js';
+
+export type TokenType =
+	| 'whitespace'
+	| 'comment'
+	| 'string' // '...', E'...', $$...$$
+	| 'quoted' // "identifier" or `identifier`
+	| 'word' // Keywords and unquoted identifiers
+	| 'number'
+	| 'parameter' // $1
+	| 'punctuation' // ( ) , ; . [ ]
+	| 'operator';
+
+export interface Token {
+	type: TokenType;
+	text: string;
+	start: number; // Offset in the source
+}
+
+// Sticky patterns, matched at a given offset without slicing the input
+const WHITESPACE = /\s+/y;
+const DOLLAR_TAG = /\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$/y;
+const POSITIONAL_PARAMETER = /\$\d+/y;
+const NUMBER = /(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const WORD = /[\p{L}_][\p{L}\p{N}_$]*/uy;
+
+function matchAt(pattern: RegExp, sql: string, offset: number): string | null {
+	pattern.lastIndex = offset;
+	return pattern.exec(sql)?.[0] ?? null;
+}
+
+const OPERATOR_CHARS = '+-*/<>=~!@#%^&|?:';
+const PUNCTUATION_CHARS = '(),;.[]';
+
+/**
+ * Find the end of a quoted run starting at `start`, where a doubled quote
+ * ('' or "") stands for the quote itself. Unterminated runs end at the end of input.
+ */
+function scanQuoted(sql: string, start: number, quote: string, backslashEscapes: boolean): number {
+	let i = start + 1;
+	while (i < sql.length) {
+		const ch = sql[i];
+		if (backslashEscapes && ch === '\\') {
+			i += 2;
+		} else if (ch === quote) {
+			if (sql[i + 1] !== quote) return i + 1;
+			i += 2;
+		} else {
+			i++;
+		}
+	}
+	return sql.length;
+}
+
+// Postgres block comments nest: /* outer /* inner */ still comment */
+function scanBlockComment(sql: string, start: number, nested: boolean): number {
+	let depth = 0;
+	let i = start;
+	while (i < sql.length) {
+		if (sql.startsWith('/*', i)) {
+			depth = nested ? depth + 1 : 1;
+			i += 2;
+		} else if (sql.startsWith('*/', i)) {
+			depth--;
+			i += 2;
+			if (depth === 0) return i;
+		} else {
+			i++;
+		}
+	}
+	return sql.length;
+}
+
+/**
+ * Split SQL into tokens, keeping whitespace and comments so the tokens
+ * concatenate back to the input. Understands the quoting rules that matter
+ * for finding statement boundaries: string literals, quoted identifiers,
+ * comments and Postgres dollar-quoting.
+ */
+export function tokenize(sql: string, dialect: DriverName = 'postgres'): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	const push = (type: TokenType, end: number) => {
+		tokens.push({ type, text: sql.slice(i, end), start: i });
+		i = end;
+	};
+
+	while (i < sql.length) {
+		const ch = sql[i];
+		const next = sql[i + 1] ?? '';
+
+		if (/\s/.test(ch)) {
+			push('whitespace', i + matchAt(WHITESPACE, sql, i)!.length);
+		} else if (sql.startsWith('--', i) || (dialect === 'mysql' && ch === '#')) {
+			const newline = sql.indexOf('\n', i);
+			push('comment', newline === -1 ? sql.length : newline);
+		} else if (sql.startsWith('/*', i)) {
+			push('comment', scanBlockComment(sql, i, dialect === 'postgres'));
+		} else if (ch === "'") {
+			push('string', scanQuoted(sql, i, "'", dialect === 'mysql'));
+		} else if ((ch === 'e' || ch === 'E') && next === "'") {
+			push('string', scanQuoted(sql, i + 1, "'", true));
+		} else if (ch === '"' || ch === '`') {
+			// MySQL reads "..." as a string by default, but it never contains a statement boundary either way
+			push('quoted', scanQuoted(sql, i, ch, false));
+		} else if (ch === '$' && dialect === 'postgres') {
+			const tag = matchAt(DOLLAR_TAG, sql, i);
+			const param = matchAt(POSITIONAL_PARAMETER, sql, i);
+			if (tag) {
+				const close = sql.indexOf(tag, i + tag.length);
+				push('string', close === -1 ? sql.length : close + tag.length);
+			} else if (param) {
+				push('parameter', i + param.length);
+			} else {
+				push('operator', i + 1);
+			}
+		} else if (/\d/.test(ch) || (ch === '.' && /\d/.test(next))) {
+			push('number', i + matchAt(NUMBER, sql, i)!.length);
+		} else if (/[\p{L}_]/u.test(ch)) {
+			push('word', i + matchAt(WORD, sql, i)!.length);
+		} else if (PUNCTUATION_CHARS.includes(ch)) {
+			push('punctuation', i + 1);
+		} else if (OPERATOR_CHARS.includes(ch)) {
+			// Operators run together (<=, ::, ->>) but stop where a comment starts
+			let end = i + 1;
+			while (end < sql.length && OPERATOR_CHARS.includes(sql[end]) && !sql.startsWith('--', end) && !sql.startsWith('/*', end)) {
+				end++;
+			}
+			push('operator', end);
+		} else {
+			push('operator', i + 1);
+		}
+	}
+
+	return tokens;
+}
@@ -2,14 +2,14 @@ import type { QueryResultData } from './types.js';
 
 export const TEST_QUERY_RESULT: QueryResultData = {
 	columns: [
-		{ name: 'id', dataTypeID: 23, width: 4 },
-		{ name: 'name', dataTypeID: 25, width: 20 },
-		{ name: 'email', dataTypeID: 25, width: 30 },
-		{ name: 'age', dataTypeID: 23, width: 4 },
-		{ name: 'active', dataTypeID: 16, width: 6 },
-		{ name: 'balance', dataTypeID: 1700, width: 10 },
-		{ name: 'created_at', dataTypeID: 1184, width: 24 },
-		{ name: 'metadata', dataTypeID: 114, width: 20 },
+		{ name: 'id', dataType: 'int4', width: 4 },
+		{ name: 'name', dataType: 'text', width: 20 },
+		{ name: 'email', dataType: 'text', width: 30 },
+		{ name: 'age', dataType: 'int4', width: 4 },
+		{ name: 'active', dataType: 'bool', width: 6 },
+		{ name: 'balance', dataType: 'numeric', width: 10 },
+		{ name: 'created_at', dataType: 'timestamptz', width: 24 },
+		{ name: 'metadata', dataType: 'json', width: 20 },
 	],
 	rows: [
 		{
@@ -1,8 +1,8 @@
-import type { QueryResult } from 'pg';
+import type { DriverResult } from './drivers/index.js';
 
 export interface ColumnInfo {
 	name: string;
-	dataTypeID: number;
+	dataType: string; // Type name reported by the driver
 	width: number;
 }
 
@@ -13,15 +13,23 @@ export interface QueryResultData {
 	executionTime: number;
 }
 
+// Outcome of one statement in a multi-statement script
+export interface StatementResult {
+	sql: string;
+	status: 'ok' | 'error' | 'skipped'; // Skipped after an earlier statement failed
+	result?: QueryResultData;
+	error?: string;
+}
+
 export interface CellValue {
 	value: unknown;
 	type: 'string' | 'number' | 'boolean' | 'null' | 'date' | 'json' | 'unknown';
 }
 
-export function parseQueryResult(result: QueryResult, executionTime: number): QueryResultData {
+export function parseQueryResult(result: DriverResult, executionTime: number): QueryResultData {
 	const columns: ColumnInfo[] = result.fields.map((field) => ({
 		name: field.name,
-		dataTypeID: field.dataTypeID,
+		dataType: field.dataType,
 		width: field.name.length,
 	}));
 
@@ -49,6 +57,25 @@ export function parseQueryResult(result: QueryResult, executionTime: number): Qu
 	};
 }
 
+/**
+ * Expanded display (\x): one row per column, each record introduced by a
+ * "-[ RECORD n ]" row, so wide results read top to bottom.
+ */
+export function expandRecords(data: QueryResultData): QueryResultData {
+	const rows: Record<string, unknown>[] = [];
+	data.rows.forEach((row, idx) => {
+		rows.push({ Column: `-[ RECORD ${idx + 1} ]`, Value: '' });
+		for (const column of data.columns) {
+			rows.push({ Column: column.name, Value: row[column.name] });
+		}
+	});
+	const fields = [
+		{ name: 'Column', dataType: 'text' },
+		{ name: 'Value', dataType: 'text' },
+	];
+	return parseQueryResult({ fields, rows, rowCount: rows.length }, data.executionTime);
+}
+
 export function formatValue(value: unknown): string {
 	if (value === null) {
 		return 'NULL';
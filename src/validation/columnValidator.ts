@@ -1,5 +1,7 @@
-import type { DatabaseSchema } from '../autocomplete/types.js';
+import type { DatabaseSchema, QueryAnalysis } from '../autocomplete/types.js';
 import { SQL_KEYWORDS, SQL_FUNCTIONS } from '../autocomplete/keywords.js';
+import { analyzeQuery, findColumn, findQualifiedSource, scopeAt, sourceColumns, visibleSources } from '../autocomplete/scopeAnalyzer.js';
+import { findTable } from '../autocomplete/schemaService.js';
 
 export interface ValidationError {
 	message: string;
@@ -9,12 +11,19 @@ export interface ValidationError {
 	hint?: string;
 }
 
-interface TableAlias {
-	tableName: string;
-	alias: string | null;
-}
-
-const KEYWORDS_SET = new Set(SQL_KEYWORDS.map((k) => k.toUpperCase()));
+// Keywords, plus the words of CTEs and subqueries that are not in the completion list
+const KEYWORDS_SET = new Set([
+	...SQL_KEYWORDS.map((k) => k.toUpperCase()),
+	'WITH',
+	'RECURSIVE',
+	'MATERIALIZED',
+	'LATERAL',
+	'ONLY',
+	'USING',
+	'NATURAL',
+	'ANY',
+	'SOME',
+]);
 const FUNCTIONS_SET = new Set(SQL_FUNCTIONS.map((f) => f.toUpperCase()));
 
 /**
@@ -35,97 +44,15 @@ function isInStringLiteral(query: string, position: number): boolean {
 }
 
 /**
- * Extract tables and their aliases from the query.
- * Returns both the table name and its alias (if any).
- */
-function extractTablesWithAliases(query: string): TableAlias[] {
-	const tables: TableAlias[] = [];
-
-	// Match FROM table [AS] alias
-	const fromRegex = /\bFROM\s+(\w+)(?:\s+(?:AS\s+)?(\w+))?/gi;
-	let match;
-	while ((match = fromRegex.exec(query)) !== null) {
-		const tableName = match[1].toLowerCase();
-		const alias = match[2] ? match[2].toLowerCase() : null;
-		// Check alias is not a keyword (e.g., FROM users WHERE...)
-		if (alias && !KEYWORDS_SET.has(alias.toUpperCase())) {
-			tables.push({ tableName, alias });
-		} else {
-			tables.push({ tableName, alias: null });
-		}
-	}
-
-	// Match JOIN table [AS] alias
-	const joinRegex = /\b(?:LEFT|RIGHT|INNER|OUTER|FULL|CROSS)?\s*JOIN\s+(\w+)(?:\s+(?:AS\s+)?(\w+))?/gi;
-	while ((match = joinRegex.exec(query)) !== null) {
-		const tableName = match[1].toLowerCase();
-		const alias = match[2] ? match[2].toLowerCase() : null;
-		if (alias && !KEYWORDS_SET.has(alias.toUpperCase())) {
-			tables.push({ tableName, alias });
-		} else {
-			tables.push({ tableName, alias: null });
-		}
-	}
-
-	return tables;
-}
-
-/**
- * Build a map from alias/table name to actual table name
- */
-function buildAliasMap(tables: TableAlias[]): Map<string, string> {
-	const map = new Map<string, string>();
-	for (const { tableName, alias } of tables) {
-		map.set(tableName, tableName);
-		if (alias) {
-			map.set(alias, tableName);
-		}
-	}
-	return map;
-}
-
-/**
- * Get all valid column names for a table from the schema
+ * Quoted identifiers: backticks (MySQL) or double quotes
  */
-function getTableColumns(tableName: string, schema: DatabaseSchema): Set<string> {
-	const columns = new Set<string>();
-	const table = schema.tables.find(
-		(t) => t.name.toLowerCase() === tableName.toLowerCase()
-	);
-	if (table) {
-		for (const col of table.columns) {
-			columns.add(col.name.toLowerCase());
-		}
-	}
-	return columns;
-}
-
-/**
- * Get all valid columns across all tables in scope
- */
-function getAllColumnsInScope(tables: TableAlias[], schema: DatabaseSchema): Set<string> {
-	const allColumns = new Set<string>();
-	for (const { tableName } of tables) {
-		const cols = getTableColumns(tableName, schema);
-		for (const col of cols) {
-			allColumns.add(col);
-		}
-	}
-	return allColumns;
-}
-
-/**
- * Check if a table exists in the schema
- */
-function tableExistsInSchema(tableName: string, schema: DatabaseSchema): boolean {
-	return schema.tables.some(
-		(t) => t.name.toLowerCase() === tableName.toLowerCase()
-	);
+function isQuote(char: string | undefined): boolean {
+	return char === '`' || char === '"';
 }
 
 interface ColumnReference {
 	name: string;
-	table: string | null; // null for unqualified columns
+	table: string | null; // As written: alias, table or schema.table; null for unqualified columns
 	position: number;
 	endPosition: number;
 }
@@ -134,37 +61,20 @@ interface ColumnReference {
  * Extract all column references from the query.
  * This is the key function that identifies where columns are used.
  */
-function extractColumnReferences(query: string, tables: TableAlias[]): ColumnReference[] {
+function extractColumnReferences(query: string, analysis: QueryAnalysis, routineNames: Set<string>): ColumnReference[] {
 	const refs: ColumnReference[] = [];
-	const tableNames = new Set(tables.map((t) => t.tableName));
-	const aliasNames = new Set(tables.filter((t) => t.alias).map((t) => t.alias!));
-	const tableAndAliasNames = new Set([...tableNames, ...aliasNames]);
+	const sources = analysis.scopes.flatMap((scope) => [...scope.sources, ...scope.ctes]);
+	const tableAndAliasNames = new Set(sources.flatMap((source) => (source.alias ? [source.table, source.alias] : [source.table])));
 
 	// Find all identifiers in the query
 	const identifierRegex = /\b([a-zA-Z_][a-zA-Z0-9_]*)\b/g;
 	let match;
 
-	// Track positions that are part of table references (to skip them)
-	const skipPositions = new Set<number>();
-
-	// Mark table names after FROM and JOIN as skip positions
-	const fromJoinRegex = /\b(?:FROM|JOIN)\s+(\w+)/gi;
-	while ((match = fromJoinRegex.exec(query)) !== null) {
-		const tableStart = match.index + match[0].indexOf(match[1]);
-		skipPositions.add(tableStart);
-	}
-
-	// Mark alias definitions (word after table name) as skip positions
-	const aliasRegex = /\b(?:FROM|JOIN)\s+\w+\s+(?:AS\s+)?(\w+)/gi;
-	while ((match = aliasRegex.exec(query)) !== null) {
-		if (match[1] && !KEYWORDS_SET.has(match[1].toUpperCase())) {
-			const aliasStart = match.index + match[0].lastIndexOf(match[1]);
-			skipPositions.add(aliasStart);
-		}
-	}
+	// Skip the names that declare tables, aliases, CTEs and their column lists
+	const skipPositions = new Set(analysis.declarations);
 
 	// Mark column alias definitions (after AS) as skip positions
-	const columnAliasRegex = /\bAS\s+(\w+)/gi;
+	const columnAliasRegex = /\bAS\s+[`"]?(\w+)/gi;
 	while ((match = columnAliasRegex.exec(query)) !== null) {
 		const aliasStart = match.index + match[0].indexOf(match[1]);
 		skipPositions.add(aliasStart);
@@ -186,23 +96,34 @@ function extractColumnReferences(query: string, tables: TableAlias[]): ColumnRef
 		// Skip SQL keywords
 		if (KEYWORDS_SET.has(upperWord)) continue;
 
-		// Skip SQL functions (typically followed by parenthesis)
-		if (FUNCTIONS_SET.has(upperWord)) continue;
+		// Skip SQL functions (typically followed by parenthesis), built-in or defined on the server
+		if (FUNCTIONS_SET.has(upperWord) || routineNames.has(upperWord)) continue;
+
+		// Skip bind parameters (:name) and the type in a ::cast
+		if (query[position - 1] === ':') continue;
 
 		// Skip numeric-looking values (though regex already filters these)
 		if (/^\d+$/.test(word)) continue;
 
-		// Check if this is a qualified column (table.column)
-		const beforePos = position - 1;
+		// Check if this is a qualifier (followed by a dot): a table, an alias or a schema
+		const afterPos = isQuote(query[position + word.length]) ? position + word.length + 1 : position + word.length;
+		if (afterPos < query.length && query[afterPos] === '.') {
+			// This is the table part of table.column - skip it
+			continue;
+		}
+
+		// Check if this is a qualified column (table.column or schema.table.column), looking past quotes as in `u`.`name`
+		const beforePos = isQuote(query[position - 1]) ? position - 2 : position - 1;
 		if (beforePos >= 0 && query[beforePos] === '.') {
 			// This is the column part of table.column
-			// Find the table/alias before the dot
+			// Find the table/alias before the dot, and its schema if any
 			const beforeDot = query.slice(0, beforePos);
-			const tableMatch = beforeDot.match(/(\w+)\s*$/);
+			const tableMatch = beforeDot.match(/(?:(\w+)[`"]?\.[`"]?)?(\w+)[`"]?\s*$/);
 			if (tableMatch) {
+				const qualifier = tableMatch[1] ? `${tableMatch[1]}.${tableMatch[2]}` : tableMatch[2];
 				refs.push({
 					name: word.toLowerCase(),
-					table: tableMatch[1].toLowerCase(),
+					table: qualifier.toLowerCase(),
 					position,
 					endPosition: position + word.length,
 				});
@@ -210,13 +131,6 @@ function extractColumnReferences(query: string, tables: TableAlias[]): ColumnRef
 			continue;
 		}
 
-		// Check if this is a table qualifier (followed by a dot)
-		const afterPos = position + word.length;
-		if (afterPos < query.length && query[afterPos] === '.') {
-			// This is the table part of table.column - skip it
-			continue;
-		}
-
 		// Check if this is a table name or alias being used alone (not a column)
 		if (tableAndAliasNames.has(word.toLowerCase())) {
 			continue;
@@ -234,44 +148,58 @@ function extractColumnReferences(query: string, tables: TableAlias[]): ColumnRef
 	return refs;
 }
 
+/**
+ * Blank out backslash commands (\d users, \x) so their words are not taken
+ * for columns. Offsets are kept, so positions still match the query.
+ */
+function maskMetaCommands(query: string): string {
+	return query.replace(/(^|;)(\s*)(\\[^;\n]*)/g, (_match, start: string, space: string, command: string) =>
+		start + space + ' '.repeat(command.length)
+	);
+}
+
 /**
  * Validate column references against the schema
  */
-export function validateColumns(query: string, schema: DatabaseSchema): ValidationError[] {
+export function validateColumns(sql: string, schema: DatabaseSchema): ValidationError[] {
+	const query = maskMetaCommands(sql);
 	if (!query.trim()) {
 		return [];
 	}
 
-	const errors: ValidationError[] = [];
-	const tables = extractTablesWithAliases(query);
+	const errors: ValidationError[] = validateSequenceNames(query, schema);
+	const analysis = analyzeQuery(query);
 
 	// If no tables in query, skip validation (e.g., "SELECT 1")
-	if (tables.length === 0) {
-		return [];
+	if (!analysis.scopes.some((scope) => scope.sources.length > 0)) {
+		return errors;
 	}
 
-	const aliasMap = buildAliasMap(tables);
-	const allColumnsInScope = getAllColumnsInScope(tables, schema);
-	const columnRefs = extractColumnReferences(query, tables);
+	const routineNames = new Set(schema.routines.map((routine) => routine.name.toUpperCase()));
+	const columnRefs = extractColumnReferences(query, analysis, routineNames);
 
 	for (const ref of columnRefs) {
+		// Each reference is checked in the query it appears in, which may be a CTE or subquery
+		const scope = scopeAt(analysis, ref.position);
+		if (!scope) continue;
+		const sources = visibleSources(scope);
+
 		if (ref.table) {
 			// Qualified column: table.column
-			const actualTableName = aliasMap.get(ref.table);
+			const source = findQualifiedSource(sources, ref.table);
 
-			if (!actualTableName) {
-				// Unknown table/alias - skip, server will catch this
+			if (!source) {
+				// Unknown or ambiguous table/alias - skip, server will catch this
 				continue;
 			}
 
-			// Check if the table exists in schema
-			if (!tableExistsInSchema(actualTableName, schema)) {
-				// Table not in schema - skip validation
+			// Tables not in the schema and functions without a column list - skip validation
+			const columns = sourceColumns(source, schema);
+			if (!columns) {
 				continue;
 			}
 
-			const tableColumns = getTableColumns(actualTableName, schema);
-			if (!tableColumns.has(ref.name)) {
+			if (!columns.some((col) => col.name.toLowerCase() === ref.name)) {
 				const displayTable = ref.table; // Use original case from query
 				errors.push({
 					message: `Unknown column "${ref.name}"`,
@@ -283,32 +211,117 @@ export function validateColumns(query: string, schema: DatabaseSchema): Validati
 			}
 		} else {
 			// Unqualified column: just column name
-			// Valid if it exists in ANY table in scope
-			if (!allColumnsInScope.has(ref.name)) {
-				// Check if at least one table is known in the schema
-				const knownTables = tables.filter((t) =>
-					tableExistsInSchema(t.tableName, schema)
-				);
-
-				if (knownTables.length === 0) {
-					// No tables known in schema - skip validation
-					continue;
-				}
-
-				const tableList = knownTables
-					.map((t) => t.alias || t.tableName)
-					.join(', ');
+			// Output column aliases can be used in ORDER BY, GROUP BY and HAVING
+			const isAlias = scope.projection.some(
+				(item) => 'name' in item && item.name.toLowerCase() === ref.name && item.column?.name !== ref.name
+			);
+			if (isAlias) {
+				continue;
+			}
+
+			// Valid if it exists in ANY table in scope; skip if the columns of any are unknown
+			const columns = sources.map((source) => sourceColumns(source, schema));
+			if (sources.length === 0 || columns.some((cols) => cols === null)) {
+				continue;
+			}
+
+			if (!columns.some((cols) => cols!.some((col) => col.name.toLowerCase() === ref.name))) {
+				const tableList = sources.map((source) => source.alias || source.table).join(', ');
 
 				errors.push({
 					message: `Unknown column "${ref.name}"`,
 					position: ref.position,
 					endPosition: ref.endPosition,
 					severity: 'error',
-					hint: `"${ref.name}" not found in ${knownTables.length === 1 ? 'table' : 'tables'}: ${tableList}`,
+					hint: `"${ref.name}" not found in ${sources.length === 1 ? 'table' : 'tables'}: ${tableList}`,
 				});
 			}
 		}
 	}
 
+	errors.push(...validateEnumValues(query, analysis, schema));
+	return errors;
+}
+
+/**
+ * Check string literals compared to enum columns (status = 'paid', status IN
+ * ('new', 'paid')) against the enum's labels. Postgres labels are case-sensitive
+ * and an unknown one fails the query; MySQL compares by the column's collation
+ * and an unknown label only matches nothing, so it gets a warning.
+ */
+function validateEnumValues(query: string, analysis: QueryAnalysis, schema: DatabaseSchema): ValidationError[] {
+	const errors: ValidationError[] = [];
+	// column = 'value' (or <>, !=), or column IN ('value', ...); the column may be table. or schema.table. qualified
+	const comparisonRegex = /(?:(?:(\w+)[`"]?\.[`"]?)?(\w+)[`"]?\.[`"]?)?\b(\w+)[`"]?\s*(?:(?:=|<>|!=)\s*('(?:[^']|'')*')|\bIN\s*\(((?:\s*'(?:[^']|'')*'\s*,?)+)\))/gi;
+	let match;
+	while ((match = comparisonRegex.exec(query)) !== null) {
+		const [, schemaName, table, columnName, literal, inList] = match;
+		const qualifier = table ? (schemaName ? `${schemaName}.${table}` : table) : null;
+		if (isInStringLiteral(query, match.index)) continue;
+
+		const scope = scopeAt(analysis, match.index);
+		if (!scope) continue;
+		const sources = visibleSources(scope);
+		const qualified = qualifier ? findQualifiedSource(sources, qualifier) : undefined;
+		const column = findColumn(qualifier ? (qualified ? [qualified] : []) : sources, columnName, schema);
+		if (!column?.enumValues) continue;
+		const { enumValues, enumCollation } = column;
+		const ignoreCase = enumCollation !== undefined && /_ci$/i.test(enumCollation);
+		const isLabel = (value: string) =>
+			ignoreCase ? enumValues.some((label) => label.toLowerCase() === value.toLowerCase()) : enumValues.includes(value);
+
+		// Each literal, with its offset in the query
+		const literals = literal ?? inList;
+		const literalsStart = match.index + match[0].lastIndexOf(literals);
+		const literalRegex = /'((?:[^']|'')*)'/g;
+		let literalMatch;
+		while ((literalMatch = literalRegex.exec(literals)) !== null) {
+			const value = literalMatch[1].replace(/''/g, "'");
+			if (isLabel(value)) continue;
+			const position = literalsStart + literalMatch.index;
+			errors.push({
+				message:
+					enumCollation === undefined
+						? `Invalid value '${value}' for "${column.name}"`
+						: `'${value}' is not a value of "${column.name}", so it matches no rows`,
+				position,
+				endPosition: position + literalMatch[0].length,
+				severity: enumCollation === undefined ? 'error' : 'warning',
+				hint: `${column.dataType} is one of: ${enumValues.map((label) => `'${label}'`).join(', ')}`,
+			});
+		}
+	}
+	return errors;
+}
+
+/**
+ * Warn about nextval('name'), currval and setval naming a sequence that is not
+ * loaded. Skipped when no sequences were loaded, or for a schema that was not.
+ */
+function validateSequenceNames(query: string, schema: DatabaseSchema): ValidationError[] {
+	const errors: ValidationError[] = [];
+	if (!schema.tables.some((table) => table.kind === 'sequence')) {
+		return errors;
+	}
+
+	const sequenceRegex = /\b(?:nextval|currval|setval)\s*\(\s*'((?:[^']|'')*)'/gi;
+	let match;
+	while ((match = sequenceRegex.exec(query)) !== null) {
+		if (isInStringLiteral(query, match.index)) continue;
+		const parts = match[1].split('.').map((part) => part.replace(/^"|"$/g, ''));
+		const [schemaName, name] = parts.length === 2 ? parts : [null, parts[0]];
+		if (schemaName && !schema.tables.some((table) => table.schema.toLowerCase() === schemaName.toLowerCase())) continue;
+
+		const table = findTable(schema, name, schemaName);
+		if (table?.kind === 'sequence') continue;
+		const position = match.index + match[0].lastIndexOf(`'${match[1]}'`);
+		errors.push({
+			message: `Unknown sequence "${match[1]}"`,
+			position,
+			endPosition: position + match[1].length + 2,
+			severity: 'warning',
+			hint: table ? `"${match[1]}" is a ${table.kind}, not a sequence` : undefined,
+		});
+	}
 	return errors;
 }